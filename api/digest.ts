@@ -0,0 +1,48 @@
+import { Api } from 'grammy';
+import { loadConfig } from '../src/config.js';
+import { initSupabase } from '../src/supabase.js';
+import { initLLM } from '../src/llm.js';
+import { initPromptBudget } from '../src/prompt.js';
+import { initAccessControl } from '../src/access.js';
+import { initRedaction } from '../src/redaction.js';
+import { runDueDigests } from '../src/digest.js';
+import { isCronRequestAuthorized } from '../src/cron.js';
+import { logger } from '../src/logger.js';
+
+let api: Api | null = null;
+
+async function init() {
+  const config = loadConfig();
+  if (!api) {
+    initSupabase(config.supabaseUrl, config.supabaseKey);
+    await initLLM(config);
+    initPromptBudget(config);
+    initAccessControl(config.adminUserIds);
+    initRedaction(config);
+    api = new Api(config.telegramBotToken);
+  }
+  return { config, api };
+}
+
+// HTTP-triggered digest scheduler for serverless deployments (e.g. a cron job every few minutes)
+// Requires "Authorization: Bearer <CRON_SECRET>"; refuses every request when CRON_SECRET is not set
+export default async function handler(req: any, res: any) {
+  const { config, api } = await init();
+
+  if (!isCronRequestAuthorized(req.headers?.authorization, config.cronSecret)) {
+    res.statusCode = config.cronSecret ? 401 : 503;
+    res.end(JSON.stringify({ error: config.cronSecret ? 'Unauthorized' : 'CRON_SECRET is not configured' }));
+    return;
+  }
+
+  try {
+    const result = await runDueDigests(api);
+    res.statusCode = 200;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(result));
+  } catch (error) {
+    logger.error('[DIGEST] Scheduler request failed:', error);
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Digest run failed' }));
+  }
+}
@@ -0,0 +1,44 @@
+import { loadConfig } from '../src/config.js';
+import { initSupabase } from '../src/supabase.js';
+import { initEmbeddings, verifyEmbeddingSchema } from '../src/embeddings.js';
+import { processEmbeddingJobs } from '../src/embeddingQueue.js';
+import { initWatches } from '../src/watches.js';
+import { isCronRequestAuthorized } from '../src/cron.js';
+import { logger } from '../src/logger.js';
+
+let initialized = false;
+
+async function init() {
+  const config = loadConfig();
+  if (!initialized) {
+    initSupabase(config.supabaseUrl, config.supabaseKey);
+    await initEmbeddings(config);
+    await verifyEmbeddingSchema();
+    initWatches(config);
+    initialized = true;
+  }
+  return config;
+}
+
+// HTTP-triggered embedding worker for serverless deployments (e.g. a cron job)
+// Requires "Authorization: Bearer <CRON_SECRET>"; refuses every request when CRON_SECRET is not set
+export default async function handler(req: any, res: any) {
+  const config = await init();
+
+  if (!isCronRequestAuthorized(req.headers?.authorization, config.cronSecret)) {
+    res.statusCode = config.cronSecret ? 401 : 503;
+    res.end(JSON.stringify({ error: config.cronSecret ? 'Unauthorized' : 'CRON_SECRET is not configured' }));
+    return;
+  }
+
+  try {
+    const result = await processEmbeddingJobs();
+    res.statusCode = 200;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(result));
+  } catch (error) {
+    logger.error('[EMBED-QUEUE] Worker request failed:', error);
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Worker failed' }));
+  }
+}
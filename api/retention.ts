@@ -0,0 +1,39 @@
+import { loadConfig } from '../src/config.js';
+import { initSupabase } from '../src/supabase.js';
+import { runRetentionPurge } from '../src/retention.js';
+import { isCronRequestAuthorized } from '../src/cron.js';
+import { logger } from '../src/logger.js';
+
+let initialized = false;
+
+function init() {
+  const config = loadConfig();
+  if (!initialized) {
+    initSupabase(config.supabaseUrl, config.supabaseKey);
+    initialized = true;
+  }
+  return config;
+}
+
+// HTTP-triggered retention purge for serverless deployments (e.g. a cron job every hour)
+// Requires "Authorization: Bearer <CRON_SECRET>"; refuses every request when CRON_SECRET is not set
+export default async function handler(req: any, res: any) {
+  const config = init();
+
+  if (!isCronRequestAuthorized(req.headers?.authorization, config.cronSecret)) {
+    res.statusCode = config.cronSecret ? 401 : 503;
+    res.end(JSON.stringify({ error: config.cronSecret ? 'Unauthorized' : 'CRON_SECRET is not configured' }));
+    return;
+  }
+
+  try {
+    const result = await runRetentionPurge();
+    res.statusCode = 200;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(result));
+  } catch (error) {
+    logger.error('[RETENTION] Purge request failed:', error);
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Retention purge failed' }));
+  }
+}
@@ -0,0 +1,29 @@
+-- Migration: 002_create_match_conversations.sql
+-- Purpose: Semantic retrieval over stored message embeddings
+-- Created: 2026-10-19
+-- Description: Adds a vector similarity index and the match_conversations() search function
+
+-- Approximate nearest-neighbour index for cosine distance searches
+CREATE INDEX IF NOT EXISTS idx_conversations_vector
+  ON conversations USING hnsw (vector vector_cosine_ops);
+
+-- Return the conversations most similar to a query embedding, optionally scoped to one group
+CREATE OR REPLACE FUNCTION match_conversations(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 20,
+  match_threshold FLOAT DEFAULT 0,
+  filter_group_id BIGINT DEFAULT NULL
+)
+RETURNS SETOF conversations
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.*
+  FROM conversations c
+  WHERE c.vector IS NOT NULL
+    AND (filter_group_id IS NULL OR c.group_id = filter_group_id)
+    AND 1 - (c.vector <=> query_embedding) >= match_threshold
+  ORDER BY c.vector <=> query_embedding
+  LIMIT match_count
+$$;
+
+COMMENT ON FUNCTION match_conversations(vector, INT, FLOAT, BIGINT) IS 'Cosine similarity search over conversations.vector, used as /ask and @mention context';
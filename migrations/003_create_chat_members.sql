@@ -0,0 +1,41 @@
+-- Migration: 003_create_chat_members.sql
+-- Purpose: Track group membership so private /ask answers stay within the asker's groups
+-- Created: 2026-10-19
+-- Description: Creates chat_members and scopes match_conversations() to a list of groups
+
+-- Create chat_members table for tracking which users belong to which groups
+CREATE TABLE IF NOT EXISTS chat_members (
+  id BIGSERIAL PRIMARY KEY,
+  group_id BIGINT NOT NULL,
+  user_id BIGINT NOT NULL,
+  status TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_members_user_id ON chat_members(user_id);
+
+-- Replace the single-group filter with a group list (NULL = all groups)
+DROP FUNCTION IF EXISTS match_conversations(vector, INT, FLOAT, BIGINT);
+
+CREATE OR REPLACE FUNCTION match_conversations(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 20,
+  match_threshold FLOAT DEFAULT 0,
+  filter_group_ids BIGINT[] DEFAULT NULL
+)
+RETURNS SETOF conversations
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.*
+  FROM conversations c
+  WHERE c.vector IS NOT NULL
+    AND (filter_group_ids IS NULL OR c.group_id = ANY(filter_group_ids))
+    AND 1 - (c.vector <=> query_embedding) >= match_threshold
+  ORDER BY c.vector <=> query_embedding
+  LIMIT match_count
+$$;
+
+COMMENT ON TABLE chat_members IS 'Last known membership status of users in monitored groups';
+COMMENT ON COLUMN chat_members.status IS 'Telegram chat member status (creator, administrator, member, restricted, left, kicked)';
+COMMENT ON FUNCTION match_conversations(vector, INT, FLOAT, BIGINT[]) IS 'Cosine similarity search over conversations.vector, used as /ask and @mention context';
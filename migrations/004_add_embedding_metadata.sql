@@ -0,0 +1,54 @@
+-- Migration: 004_add_embedding_metadata.sql
+-- Purpose: Record which model produced each vector and expose the schema dimension
+-- Created: 2026-10-19
+-- Description: Adds embedding_model/embedding_dimensions, get_vector_dimensions() and model-scoped matching
+
+-- Per-row embedding provenance
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS embedding_dimensions INT;
+
+-- Existing vectors can only have come from OpenAI text-embedding-3-small (the only 1536-dim provider)
+UPDATE conversations
+SET embedding_model = 'text-embedding-3-small', embedding_dimensions = 1536
+WHERE vector IS NOT NULL AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_embedding_model ON conversations(embedding_model);
+
+-- Declared dimension of conversations.vector (pgvector stores it as the type modifier)
+CREATE OR REPLACE FUNCTION get_vector_dimensions()
+RETURNS INT
+LANGUAGE sql STABLE
+AS $$
+  SELECT a.atttypmod
+  FROM pg_attribute a
+  WHERE a.attrelid = 'public.conversations'::regclass
+    AND a.attname = 'vector'
+$$;
+
+-- Only compare query vectors against rows embedded with the same model
+DROP FUNCTION IF EXISTS match_conversations(vector, INT, FLOAT, BIGINT[]);
+
+CREATE OR REPLACE FUNCTION match_conversations(
+  query_embedding vector(1536),
+  match_count INT DEFAULT 20,
+  match_threshold FLOAT DEFAULT 0,
+  filter_group_ids BIGINT[] DEFAULT NULL,
+  filter_model TEXT DEFAULT NULL
+)
+RETURNS SETOF conversations
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.*
+  FROM conversations c
+  WHERE c.vector IS NOT NULL
+    AND (filter_group_ids IS NULL OR c.group_id = ANY(filter_group_ids))
+    AND (filter_model IS NULL OR c.embedding_model = filter_model)
+    AND 1 - (c.vector <=> query_embedding) >= match_threshold
+  ORDER BY c.vector <=> query_embedding
+  LIMIT match_count
+$$;
+
+COMMENT ON COLUMN conversations.embedding_model IS 'Embedding model that produced conversations.vector';
+COMMENT ON COLUMN conversations.embedding_dimensions IS 'Length of conversations.vector as produced by the model';
+COMMENT ON FUNCTION get_vector_dimensions IS 'Declared dimension of conversations.vector, checked by the bot at startup';
+COMMENT ON FUNCTION match_conversations(vector, INT, FLOAT, BIGINT[], TEXT) IS 'Cosine similarity search over conversations.vector, used as /ask and @mention context';
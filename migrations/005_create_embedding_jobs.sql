@@ -0,0 +1,86 @@
+-- Migration: 005_create_embedding_jobs.sql
+-- Purpose: Durable queue for generating embeddings outside the ingestion path
+-- Created: 2026-10-19
+-- Description: Creates embedding_jobs and the claim_embedding_jobs()/store_message_embedding() worker functions
+
+-- One job per conversation; re-enqueueing resets the job to pending
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  conversation_id BIGINT UNIQUE NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_status_next_attempt
+  ON embedding_jobs(status, next_attempt_at);
+
+-- Claim a batch of due jobs for one worker
+-- Claimed jobs are leased for lock_seconds; a worker that dies mid-batch
+-- leaves them 'processing' and they become due again once the lease expires.
+-- claimed_at (the job's updated_at) identifies the lease: a job re-queued by
+-- an edit gets a new updated_at, so the worker cannot complete or fail it.
+-- Dropped first because the returned columns changed
+DROP FUNCTION IF EXISTS claim_embedding_jobs(INT, INT);
+
+CREATE OR REPLACE FUNCTION claim_embedding_jobs(
+  batch_size INT DEFAULT 20,
+  lock_seconds INT DEFAULT 300
+)
+RETURNS TABLE (id BIGINT, conversation_id BIGINT, attempts INT, text TEXT, claimed_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+AS $$
+  WITH claimed AS (
+    UPDATE embedding_jobs j
+    SET status = 'processing',
+        attempts = j.attempts + 1,
+        next_attempt_at = NOW() + make_interval(secs => lock_seconds),
+        updated_at = NOW()
+    WHERE j.id IN (
+      SELECT due.id
+      FROM embedding_jobs due
+      WHERE due.status IN ('pending', 'processing')
+        AND due.next_attempt_at <= NOW()
+      ORDER BY due.next_attempt_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.id, j.conversation_id, j.attempts, j.updated_at
+  )
+  SELECT claimed.id, claimed.conversation_id, claimed.attempts, c.text, claimed.updated_at
+  FROM claimed
+  JOIN conversations c ON c.id = claimed.conversation_id
+$$;
+
+-- Store a vector only while the message still has the text it was computed from,
+-- so an embedding of the pre-edit text never overwrites the edited message, and
+-- never for rows whose embedding expired (embedding_model 'expired', see purge_expired_data)
+CREATE OR REPLACE FUNCTION store_message_embedding(
+  target_id BIGINT,
+  new_vector vector,
+  new_model TEXT,
+  embedded_text TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+AS $$
+  WITH updated AS (
+    UPDATE conversations c
+    SET vector = new_vector,
+        embedding_model = new_model,
+        embedding_dimensions = vector_dims(new_vector)
+    WHERE c.id = target_id
+      AND c.text = embedded_text
+      AND c.embedding_model IS DISTINCT FROM 'expired'
+    RETURNING c.id
+  )
+  SELECT EXISTS (SELECT 1 FROM updated)
+$$;
+
+COMMENT ON TABLE embedding_jobs IS 'Queue of conversations waiting for (re-)embedding; failed jobs keep their last error';
+COMMENT ON COLUMN embedding_jobs.status IS 'pending, processing or failed (completed jobs are deleted)';
+COMMENT ON FUNCTION claim_embedding_jobs IS 'Lease a batch of due embedding jobs to a worker';
+COMMENT ON FUNCTION store_message_embedding IS 'Store a vector if the message text is unchanged and its embedding has not expired; returns false otherwise';
@@ -0,0 +1,66 @@
+-- Migration: 006_create_conversation_revisions.sql
+-- Purpose: Keep stored messages current when they are edited, with an audit trail
+-- Created: 2026-10-19
+-- Description: Adds conversations.edited_at, conversation_revisions and record_message_edit()
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Prior versions of edited messages
+CREATE TABLE IF NOT EXISTS conversation_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  conversation_id BIGINT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  valid_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  valid_to TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_revisions_conversation_id
+  ON conversation_revisions(conversation_id);
+
+-- Archive the current text of a message and replace it with the edited text
+-- The stale vector is cleared so the message can be re-embedded
+-- Returns the conversation id, or NULL if the message is unknown or unchanged
+CREATE OR REPLACE FUNCTION record_message_edit(
+  p_group_id BIGINT,
+  p_message_id BIGINT,
+  p_text TEXT,
+  p_edited_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id BIGINT;
+BEGIN
+  SELECT id INTO v_id
+  FROM conversations
+  WHERE group_id = p_group_id
+    AND message_id = p_message_id
+    AND text IS DISTINCT FROM p_text
+  FOR UPDATE;
+
+  IF v_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO conversation_revisions (conversation_id, text, valid_from, valid_to)
+  SELECT id, text, COALESCE(edited_at, timestamp), p_edited_at
+  FROM conversations
+  WHERE id = v_id;
+
+  UPDATE conversations
+  SET text = p_text,
+      edited_at = p_edited_at,
+      vector = NULL,
+      embedding_model = NULL,
+      embedding_dimensions = NULL
+  WHERE id = v_id;
+
+  RETURN v_id;
+END
+$$;
+
+COMMENT ON TABLE conversation_revisions IS 'Previous versions of edited conversations, newest valid_to last';
+COMMENT ON COLUMN conversations.edited_at IS 'Time of the latest edit, NULL if never edited';
+COMMENT ON FUNCTION record_message_edit IS 'Archive the current text of a message and store its edited version';
@@ -0,0 +1,17 @@
+-- Migration: 007_add_channel_post_attribution.sql
+-- Purpose: Store channel posts, which have no sending user
+-- Created: 2026-10-19
+-- Description: Makes conversations.user_id nullable and adds sender_chat_id/author_signature
+
+-- Channel posts and anonymous admin messages have no user
+ALTER TABLE conversations ALTER COLUMN user_id DROP NOT NULL;
+
+-- Chat the message was sent on behalf of, and the optional post signature
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS sender_chat_id BIGINT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS author_signature TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_sender_chat_id ON conversations(sender_chat_id);
+
+COMMENT ON COLUMN conversations.user_id IS 'Telegram user ID of the sender, NULL for channel posts and anonymous admins';
+COMMENT ON COLUMN conversations.sender_chat_id IS 'Chat the message was sent on behalf of (channel or anonymous group admin)';
+COMMENT ON COLUMN conversations.author_signature IS 'Author signature of a channel post, if signatures are enabled';
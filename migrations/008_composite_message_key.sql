@@ -0,0 +1,22 @@
+-- Migration: 008_composite_message_key.sql
+-- Purpose: Identify messages by chat and message id
+-- Created: 2026-10-19
+-- Description: Replaces UNIQUE(message_id) with UNIQUE(group_id, message_id)
+
+-- Telegram message ids are only unique within a chat, so the global unique
+-- constraint dropped legitimate messages from other chats as "duplicates"
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_message_id_key;
+
+-- Data repair: keep the earliest row per (group_id, message_id) in case
+-- duplicates were written while no unique constraint was in place
+DELETE FROM conversations newer
+USING conversations older
+WHERE newer.group_id = older.group_id
+  AND newer.message_id = older.message_id
+  AND newer.id > older.id;
+
+-- Composite identity used by insertMessage upserts (ON CONFLICT (group_id, message_id))
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_group_message
+  ON conversations(group_id, message_id);
+
+COMMENT ON COLUMN conversations.message_id IS 'Telegram message identifier, unique per group_id';
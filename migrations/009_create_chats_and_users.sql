@@ -0,0 +1,81 @@
+-- Migration: 009_create_chats_and_users.sql
+-- Purpose: Name groups and people in answers instead of repeating raw IDs
+-- Created: 2026-10-19
+-- Description: Creates chats and telegram_users reference tables and links conversations and chat_members to them
+
+-- Groups, supergroups, channels and private chats seen by the bot
+CREATE TABLE IF NOT EXISTS chats (
+  id BIGINT PRIMARY KEY,
+  type TEXT NOT NULL DEFAULT 'unknown',
+  title TEXT,
+  username TEXT,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Telegram users seen by the bot (opted-out users are never recorded)
+CREATE TABLE IF NOT EXISTS telegram_users (
+  id BIGINT PRIMARY KEY,
+  username TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  is_bot BOOLEAN NOT NULL DEFAULT FALSE,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_users_username ON telegram_users(username);
+
+-- Backfill from existing rows so the foreign keys below can be validated
+-- Titles and types are unknown until the next update from each chat
+INSERT INTO chats (id)
+SELECT DISTINCT group_id FROM conversations
+UNION
+SELECT DISTINCT group_id FROM chat_members
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO telegram_users (id, username, first_name, last_name)
+SELECT DISTINCT ON (user_id) user_id, user_name, user_first_name, user_last_name
+FROM conversations
+WHERE user_id IS NOT NULL
+ORDER BY user_id, timestamp DESC
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO telegram_users (id)
+SELECT DISTINCT user_id FROM chat_members
+ON CONFLICT (id) DO NOTHING;
+
+-- Foreign keys let PostgREST embed chats/telegram_users into conversation queries
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'conversations_group_id_fkey') THEN
+    ALTER TABLE conversations
+      ADD CONSTRAINT conversations_group_id_fkey
+      FOREIGN KEY (group_id) REFERENCES chats(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'conversations_user_id_fkey') THEN
+    ALTER TABLE conversations
+      ADD CONSTRAINT conversations_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES telegram_users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chat_members_group_id_fkey') THEN
+    ALTER TABLE chat_members
+      ADD CONSTRAINT chat_members_group_id_fkey
+      FOREIGN KEY (group_id) REFERENCES chats(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chat_members_user_id_fkey') THEN
+    ALTER TABLE chat_members
+      ADD CONSTRAINT chat_members_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES telegram_users(id) ON DELETE CASCADE;
+  END IF;
+END
+$$;
+
+COMMENT ON TABLE chats IS 'Telegram chats seen by the bot, refreshed from incoming updates';
+COMMENT ON TABLE telegram_users IS 'Telegram users seen by the bot, refreshed from incoming updates';
+COMMENT ON COLUMN chats.type IS 'Telegram chat type (private, group, supergroup, channel), unknown for backfilled rows';
+COMMENT ON COLUMN chats.last_seen_at IS 'Time of the latest update seen from this chat';
+COMMENT ON COLUMN telegram_users.last_seen_at IS 'Time of the latest update seen from this user';
@@ -0,0 +1,72 @@
+-- Migration: 010_add_thread_metadata.sql
+-- Purpose: Reconstruct reply threads and forum topics around stored messages
+-- Created: 2026-10-19
+-- Description: Adds reply, forum topic and forward columns to conversations and get_conversation_thread()
+
+-- Message this one replies to (same chat); NULL for topic roots and non-replies
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS reply_to_message_id BIGINT;
+-- Forum topic the message belongs to
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS message_thread_id BIGINT;
+
+-- Origin of forwarded messages
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS forward_origin_type TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS forward_from_user_id BIGINT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS forward_from_chat_id BIGINT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS forward_from_message_id BIGINT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS forward_sender_name TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS forward_date TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_reply_to
+  ON conversations(group_id, reply_to_message_id)
+  WHERE reply_to_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_conversations_thread
+  ON conversations(group_id, message_thread_id)
+  WHERE message_thread_id IS NOT NULL;
+
+-- The reply chain above a message (up to max_depth ancestors), the message
+-- itself and its first max_replies direct replies, oldest first
+CREATE OR REPLACE FUNCTION get_conversation_thread(
+  p_group_id BIGINT,
+  p_message_id BIGINT,
+  p_max_depth INT DEFAULT 5,
+  p_max_replies INT DEFAULT 5
+)
+RETURNS SETOF conversations
+LANGUAGE sql STABLE
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT c.id, c.reply_to_message_id, 0 AS depth
+    FROM conversations c
+    WHERE c.group_id = p_group_id
+      AND c.message_id = p_message_id
+    UNION ALL
+    SELECT parent.id, parent.reply_to_message_id, a.depth + 1
+    FROM conversations parent
+    JOIN ancestors a
+      ON parent.group_id = p_group_id
+     AND parent.message_id = a.reply_to_message_id
+    WHERE a.depth < p_max_depth
+  ),
+  replies AS (
+    SELECT r.id
+    FROM conversations r
+    WHERE r.group_id = p_group_id
+      AND r.reply_to_message_id = p_message_id
+    ORDER BY r.timestamp
+    LIMIT p_max_replies
+  )
+  SELECT c.*
+  FROM conversations c
+  WHERE c.id IN (SELECT id FROM ancestors UNION SELECT id FROM replies)
+  ORDER BY c.timestamp;
+$$;
+
+COMMENT ON COLUMN conversations.reply_to_message_id IS 'message_id (same group) this message replies to';
+COMMENT ON COLUMN conversations.message_thread_id IS 'Forum topic of the message, NULL outside forum supergroups';
+COMMENT ON COLUMN conversations.forward_origin_type IS 'Forward origin type (user, hidden_user, chat, channel), NULL if not forwarded';
+COMMENT ON COLUMN conversations.forward_from_user_id IS 'Original author of a forwarded message, NULL if hidden or opted out';
+COMMENT ON COLUMN conversations.forward_from_chat_id IS 'Original chat/channel of a forwarded message';
+COMMENT ON COLUMN conversations.forward_from_message_id IS 'Original message ID of a forwarded channel post';
+COMMENT ON COLUMN conversations.forward_sender_name IS 'Display name of the original author or chat of a forwarded message';
+COMMENT ON COLUMN conversations.forward_date IS 'Original send time of a forwarded message';
+COMMENT ON FUNCTION get_conversation_thread IS 'Reply chain, message and direct replies around one conversation';
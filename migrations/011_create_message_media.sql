@@ -0,0 +1,28 @@
+-- Migration: 011_create_message_media.sql
+-- Purpose: Keep photos, documents, voice notes and polls instead of dropping them
+-- Created: 2026-10-19
+-- Description: Creates message_media for attachment metadata of stored conversations
+
+-- One attachment per message (albums arrive as separate messages)
+CREATE TABLE IF NOT EXISTS message_media (
+  id BIGSERIAL PRIMARY KEY,
+  conversation_id BIGINT NOT NULL UNIQUE REFERENCES conversations(id) ON DELETE CASCADE,
+  media_type TEXT NOT NULL,
+  file_id TEXT,
+  file_unique_id TEXT,
+  file_name TEXT,
+  mime_type TEXT,
+  file_size BIGINT,
+  duration INT,
+  width INT,
+  height INT,
+  text_extracted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_media_media_type ON message_media(media_type);
+
+COMMENT ON TABLE message_media IS 'Attachment metadata of stored conversations; the caption or a description is the conversation text';
+COMMENT ON COLUMN message_media.media_type IS 'photo, video, animation, audio, voice, video_note, document or poll';
+COMMENT ON COLUMN message_media.file_id IS 'Telegram file_id for downloading the file, NULL for polls';
+COMMENT ON COLUMN message_media.text_extracted IS 'Whether document contents were extracted into the conversation text';
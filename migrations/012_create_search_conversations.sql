@@ -0,0 +1,62 @@
+-- Migration: 012_create_search_conversations.sql
+-- Purpose: Find messages directly with /search instead of asking the LLM
+-- Created: 2026-10-19
+-- Description: Adds a full-text index on conversations.text and search_conversations() hybrid search
+
+-- Expression index used by the full-text half of search_conversations()
+CREATE INDEX IF NOT EXISTS idx_conversations_text_search
+  ON conversations USING GIN (to_tsvector('english', text));
+
+-- Hybrid search: full-text and vector similarity results merged with
+-- reciprocal rank fusion (score = sum of 1 / (rrf_k + rank) over both lists).
+-- Either half may be empty: pass a NULL query_embedding for keyword-only search.
+-- Rows come back best first; page with match_offset/match_count.
+CREATE OR REPLACE FUNCTION search_conversations(
+  query_text TEXT,
+  query_embedding vector(1536) DEFAULT NULL,
+  match_count INT DEFAULT 5,
+  match_offset INT DEFAULT 0,
+  match_threshold FLOAT DEFAULT 0,
+  filter_group_ids BIGINT[] DEFAULT NULL,
+  filter_model TEXT DEFAULT NULL,
+  rrf_k INT DEFAULT 50
+)
+RETURNS SETOF conversations
+LANGUAGE sql STABLE
+AS $$
+  WITH full_text AS (
+    SELECT c.id,
+           ROW_NUMBER() OVER (
+             ORDER BY ts_rank_cd(to_tsvector('english', c.text), websearch_to_tsquery('english', query_text)) DESC
+           ) AS rank_ix
+    FROM conversations c
+    WHERE to_tsvector('english', c.text) @@ websearch_to_tsquery('english', query_text)
+      AND (filter_group_ids IS NULL OR c.group_id = ANY(filter_group_ids))
+    ORDER BY rank_ix
+    LIMIT (match_offset + match_count) * 2
+  ),
+  semantic AS (
+    SELECT c.id,
+           ROW_NUMBER() OVER (ORDER BY c.vector <=> query_embedding) AS rank_ix
+    FROM conversations c
+    WHERE query_embedding IS NOT NULL
+      AND c.vector IS NOT NULL
+      AND (filter_group_ids IS NULL OR c.group_id = ANY(filter_group_ids))
+      AND (filter_model IS NULL OR c.embedding_model = filter_model)
+      AND 1 - (c.vector <=> query_embedding) >= match_threshold
+    ORDER BY rank_ix
+    LIMIT (match_offset + match_count) * 2
+  )
+  SELECT c.*
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN conversations c ON c.id = COALESCE(full_text.id, semantic.id)
+  ORDER BY
+    COALESCE(1.0 / (rrf_k + full_text.rank_ix), 0.0) +
+    COALESCE(1.0 / (rrf_k + semantic.rank_ix), 0.0) DESC,
+    c.timestamp DESC
+  OFFSET match_offset
+  LIMIT match_count
+$$;
+
+COMMENT ON FUNCTION search_conversations IS 'Hybrid full-text and vector search over conversations, used by /search';
@@ -0,0 +1,18 @@
+-- Migration: 013_create_ask_sessions.sql
+-- Purpose: Let private-chat users ask follow-up questions
+-- Created: 2026-10-19
+-- Description: Creates ask_sessions holding recent question/answer turns per user
+
+-- One session per user; expired sessions are ignored and replaced
+CREATE TABLE IF NOT EXISTS ask_sessions (
+  user_id BIGINT PRIMARY KEY,
+  turns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ask_sessions_expires_at ON ask_sessions(expires_at);
+
+COMMENT ON TABLE ask_sessions IS 'Private-chat /ask conversations, newest turn last';
+COMMENT ON COLUMN ask_sessions.turns IS 'Array of {question, answer, asked_at} objects, capped by the bot';
+COMMENT ON COLUMN ask_sessions.expires_at IS 'Session is ignored after this time; /reset deletes it early';
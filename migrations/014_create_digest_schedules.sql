@@ -0,0 +1,43 @@
+-- Migration: 014_create_digest_schedules.sql
+-- Purpose: Post scheduled summaries of each group's recent messages
+-- Created: 2026-10-19
+-- Description: Creates digest_schedules (per-group /digest settings) and digest_subscribers
+
+-- One schedule per group, configured by group admins with /digest
+CREATE TABLE IF NOT EXISTS digest_schedules (
+  group_id BIGINT PRIMARY KEY REFERENCES chats(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  hour INT NOT NULL CHECK (hour BETWEEN 0 AND 23),
+  minute INT NOT NULL DEFAULT 0 CHECK (minute BETWEEN 0 AND 59),
+  weekday INT CHECK (weekday BETWEEN 0 AND 6),
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  delivery TEXT NOT NULL DEFAULT 'group' CHECK (delivery IN ('group', 'dm')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  updated_by BIGINT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_schedules_due
+  ON digest_schedules(next_run_at)
+  WHERE enabled;
+
+-- Users who receive a group's digest by DM (delivery = 'dm')
+CREATE TABLE IF NOT EXISTS digest_subscribers (
+  id BIGSERIAL PRIMARY KEY,
+  group_id BIGINT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_subscribers_user_id ON digest_subscribers(user_id);
+
+COMMENT ON TABLE digest_schedules IS 'Per-group digest settings; the scheduler posts a summary when next_run_at passes';
+COMMENT ON COLUMN digest_schedules.weekday IS 'Day of week for weekly digests (0 = Sunday), NULL for daily';
+COMMENT ON COLUMN digest_schedules.time_zone IS 'IANA time zone that hour/minute/weekday are interpreted in';
+COMMENT ON COLUMN digest_schedules.delivery IS 'group = post in the group, dm = send to digest_subscribers';
+COMMENT ON COLUMN digest_schedules.next_run_at IS 'Next scheduled digest; advanced by the scheduler before sending';
+COMMENT ON COLUMN digest_schedules.last_sent_at IS 'Last digest delivered to at least one chat; the next digest starts here';
+COMMENT ON TABLE digest_subscribers IS 'Users who receive a group digest by private message';
@@ -0,0 +1,28 @@
+-- Migration: 015_create_events.sql
+-- Purpose: Store events announced in monitored chats as structured records
+-- Created: 2026-10-19
+-- Description: Creates events (name, time, location, URL, organisers) extracted from
+--              stored messages, each linked to the conversation that announced it
+
+CREATE TABLE IF NOT EXISTS events (
+  id BIGSERIAL PRIMARY KEY,
+  conversation_id BIGINT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  group_id BIGINT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  all_day BOOLEAN NOT NULL DEFAULT FALSE,
+  location TEXT,
+  url TEXT,
+  organisers TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_conversation_id ON events(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_events_group_starts_at ON events(group_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_events_starts_at ON events(starts_at);
+
+COMMENT ON TABLE events IS 'Events extracted from announcement messages; rewritten when the message is edited';
+COMMENT ON COLUMN events.conversation_id IS 'Message that announced the event';
+COMMENT ON COLUMN events.all_day IS 'Only the date is known; starts_at is midnight UTC of that date';
+COMMENT ON COLUMN events.organisers IS 'Organiser names or handles as written in the announcement';
@@ -0,0 +1,77 @@
+-- Migration: 016_create_watches.sql
+-- Purpose: Alert users privately when new messages in their groups match a watch
+-- Created: 2026-10-19
+-- Description: Creates watches (keyword, regex or semantic subscriptions) and watch_alerts
+--              (sent alerts, used for de-duplication and rate limiting), plus functions
+--              returning the watches of a stored message's group members
+
+CREATE TABLE IF NOT EXISTS watches (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL,
+  match_type TEXT NOT NULL CHECK (match_type IN ('keyword', 'regex', 'semantic')),
+  phrase TEXT NOT NULL,
+  embedding vector(1536),
+  embedding_model TEXT,
+  threshold FLOAT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, match_type, phrase)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watches_user_id ON watches(user_id);
+
+CREATE TABLE IF NOT EXISTS watch_alerts (
+  id BIGSERIAL PRIMARY KEY,
+  watch_id BIGINT NOT NULL REFERENCES watches(id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL,
+  conversation_id BIGINT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (watch_id, conversation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_alerts_user_sent_at ON watch_alerts(user_id, sent_at);
+
+-- Keyword and regex watches of the message's group members (matched by the bot).
+-- The sender's own watches are left out.
+CREATE OR REPLACE FUNCTION get_keyword_watches(p_conversation_id BIGINT)
+RETURNS SETOF watches
+LANGUAGE sql STABLE
+AS $$
+  SELECT w.*
+  FROM conversations c
+  JOIN chat_members m
+    ON m.group_id = c.group_id
+   AND m.status IN ('creator', 'administrator', 'member', 'restricted')
+  JOIN watches w ON w.user_id = m.user_id
+  WHERE c.id = p_conversation_id
+    AND w.match_type IN ('keyword', 'regex')
+    AND w.user_id IS DISTINCT FROM c.user_id
+$$;
+
+-- Semantic watches of the message's group members whose phrase is similar enough
+-- to the message; only compares vectors from the same embedding model
+CREATE OR REPLACE FUNCTION match_semantic_watches(p_conversation_id BIGINT)
+RETURNS SETOF watches
+LANGUAGE sql STABLE
+AS $$
+  SELECT w.*
+  FROM conversations c
+  JOIN chat_members m
+    ON m.group_id = c.group_id
+   AND m.status IN ('creator', 'administrator', 'member', 'restricted')
+  JOIN watches w ON w.user_id = m.user_id
+  WHERE c.id = p_conversation_id
+    AND c.vector IS NOT NULL
+    AND w.match_type = 'semantic'
+    AND w.embedding IS NOT NULL
+    AND w.embedding_model = c.embedding_model
+    AND w.user_id IS DISTINCT FROM c.user_id
+    AND 1 - (w.embedding <=> c.vector) >= w.threshold
+$$;
+
+COMMENT ON TABLE watches IS 'Per-user alert subscriptions created with /watch';
+COMMENT ON COLUMN watches.phrase IS 'Keyword phrase, regular expression source or semantic query';
+COMMENT ON COLUMN watches.embedding IS 'Embedding of the phrase (semantic watches only)';
+COMMENT ON COLUMN watches.threshold IS 'Minimum cosine similarity for semantic matches';
+COMMENT ON TABLE watch_alerts IS 'Alerts sent for watches; one per watch and message, counted for rate limiting';
+COMMENT ON FUNCTION get_keyword_watches IS 'Keyword/regex watches of the group members of a stored message, excluding the sender';
+COMMENT ON FUNCTION match_semantic_watches IS 'Semantic watches of the group members of a stored message that it is similar to';
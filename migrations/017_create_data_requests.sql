@@ -0,0 +1,18 @@
+-- Migration: 017_create_data_requests.sql
+-- Purpose: Keep an audit log of data subject requests
+-- Created: 2026-10-19
+-- Description: Creates data_requests, recording each /mydata export with what it contained
+
+CREATE TABLE IF NOT EXISTS data_requests (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL,
+  request_type TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_requests_user_id ON data_requests(user_id, created_at);
+
+COMMENT ON TABLE data_requests IS 'Audit log of data subject requests such as /mydata exports';
+COMMENT ON COLUMN data_requests.request_type IS 'Kind of request, e.g. export';
+COMMENT ON COLUMN data_requests.details IS 'Request summary, e.g. row counts per exported table';
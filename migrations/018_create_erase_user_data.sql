@@ -0,0 +1,58 @@
+-- Migration: 018_create_erase_user_data.sql
+-- Purpose: Let users erase everything stored about them when opting out
+-- Created: 2026-10-19
+-- Description: Adds erase_user_data(), which deletes a user's messages and every row derived
+--              from them or keyed by the user, in one transaction
+
+-- Deleting conversations cascades to conversation_revisions, message_media, events,
+-- embedding_jobs and watch_alerts. Forwards of the user's messages in other users'
+-- rows lose their attribution. The opt-out record and the data_requests audit log are kept.
+-- Returns the number of rows removed per table.
+CREATE OR REPLACE FUNCTION erase_user_data(p_user_id BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_counts JSONB := '{}'::jsonb;
+  v_count BIGINT;
+BEGIN
+  DELETE FROM conversations WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('conversations', v_count);
+
+  UPDATE conversations
+  SET forward_from_user_id = NULL,
+      forward_sender_name = NULL
+  WHERE forward_from_user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('forwards_anonymized', v_count);
+
+  DELETE FROM watches WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('watches', v_count);
+
+  DELETE FROM watch_alerts WHERE user_id = p_user_id;
+
+  DELETE FROM ask_sessions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('ask_sessions', v_count);
+
+  DELETE FROM digest_subscribers WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('digest_subscriptions', v_count);
+
+  UPDATE digest_schedules SET updated_by = NULL WHERE updated_by = p_user_id;
+
+  DELETE FROM chat_members WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('memberships', v_count);
+
+  DELETE FROM telegram_users WHERE id = p_user_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('profile', v_count);
+
+  RETURN v_counts;
+END
+$$;
+
+COMMENT ON FUNCTION erase_user_data IS 'Delete a user''s messages and all data derived from or keyed by the user; returns row counts';
@@ -0,0 +1,34 @@
+-- Migration: 019_create_user_message_groups.sql
+-- Purpose: Let users clear their stored messages one group at a time
+-- Created: 2026-10-19
+-- Description: Adds get_user_message_groups(), listing the groups a user has stored messages in
+--              with message counts, for the Clear Chats menu
+
+-- Supports the per-user queries of Clear Chats and /mydata
+CREATE INDEX IF NOT EXISTS idx_conversations_user_group ON conversations(user_id, group_id, timestamp);
+
+CREATE OR REPLACE FUNCTION get_user_message_groups(p_user_id BIGINT)
+RETURNS TABLE (
+  group_id BIGINT,
+  title TEXT,
+  username TEXT,
+  message_count BIGINT,
+  first_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.group_id,
+         ch.title,
+         ch.username,
+         COUNT(*) AS message_count,
+         MIN(c.timestamp) AS first_message_at,
+         MAX(c.timestamp) AS last_message_at
+  FROM conversations c
+  LEFT JOIN chats ch ON ch.id = c.group_id
+  WHERE c.user_id = p_user_id
+  GROUP BY c.group_id, ch.title, ch.username
+  ORDER BY COUNT(*) DESC
+$$;
+
+COMMENT ON FUNCTION get_user_message_groups IS 'Groups a user has stored messages in, with counts, most messages first';
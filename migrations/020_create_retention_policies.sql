@@ -0,0 +1,65 @@
+-- Migration: 020_create_retention_policies.sql
+-- Purpose: Expire stored messages and embeddings after a configurable period
+-- Created: 2026-10-19
+-- Description: Creates retention_policies (a global default and per-group overrides) and
+--              purge_expired_data(), run by the retention job
+
+-- group_id 0 holds the global default (Telegram chat IDs are never 0).
+-- Per-group columns left NULL fall back to the global default; 0 days keeps data indefinitely.
+CREATE TABLE IF NOT EXISTS retention_policies (
+  group_id BIGINT PRIMARY KEY,
+  message_retention_days INT CHECK (message_retention_days >= 0),
+  vector_retention_days INT CHECK (vector_retention_days >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Delete expired messages and clear expired embeddings, at most p_batch_size of each
+-- Deleting conversations cascades to revisions, media, events, embedding jobs and watch alerts.
+-- Rows past their vector retention get embedding_model = 'expired' (even if they were never
+-- embedded), so the embedding worker and npm run reembed do not embed them again.
+-- Returns the number of messages deleted and vectors cleared; call again until both are below the batch size.
+CREATE OR REPLACE FUNCTION purge_expired_data(p_batch_size INT DEFAULT 1000)
+RETURNS TABLE (messages BIGINT, vectors BIGINT)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_messages BIGINT;
+  v_vectors BIGINT;
+BEGIN
+  DELETE FROM conversations
+  WHERE id IN (
+    SELECT c.id
+    FROM conversations c
+    LEFT JOIN retention_policies g ON g.group_id = c.group_id
+    LEFT JOIN retention_policies d ON d.group_id = 0
+    WHERE COALESCE(g.message_retention_days, d.message_retention_days, 0) > 0
+      AND c.timestamp < NOW() - make_interval(days => COALESCE(g.message_retention_days, d.message_retention_days))
+    LIMIT p_batch_size
+  );
+  GET DIAGNOSTICS v_messages = ROW_COUNT;
+
+  UPDATE conversations
+  SET vector = NULL,
+      embedding_model = 'expired',
+      embedding_dimensions = NULL
+  WHERE id IN (
+    SELECT c.id
+    FROM conversations c
+    LEFT JOIN retention_policies g ON g.group_id = c.group_id
+    LEFT JOIN retention_policies d ON d.group_id = 0
+    WHERE (c.vector IS NOT NULL OR c.embedding_model IS DISTINCT FROM 'expired')
+      AND COALESCE(g.vector_retention_days, d.vector_retention_days, 0) > 0
+      AND c.timestamp < NOW() - make_interval(days => COALESCE(g.vector_retention_days, d.vector_retention_days))
+    LIMIT p_batch_size
+  );
+  GET DIAGNOSTICS v_vectors = ROW_COUNT;
+
+  RETURN QUERY SELECT v_messages, v_vectors;
+END
+$$;
+
+COMMENT ON TABLE retention_policies IS 'How long messages and embeddings are kept; group_id 0 is the global default';
+COMMENT ON COLUMN retention_policies.message_retention_days IS 'Days messages are kept (0 = indefinitely, NULL = global default)';
+COMMENT ON COLUMN retention_policies.vector_retention_days IS 'Days embeddings are kept (0 = indefinitely, NULL = global default)';
+COMMENT ON COLUMN conversations.embedding_model IS 'Embedding model that produced conversations.vector; expired once the vector retention has passed';
+COMMENT ON FUNCTION purge_expired_data IS 'Delete expired messages and clear expired embeddings in batches; returns the counts';
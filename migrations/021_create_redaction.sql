@@ -0,0 +1,45 @@
+-- Migration: 021_create_redaction.sql
+-- Purpose: Keep personal data out of stored messages and prompts
+-- Created: 2026-10-19
+-- Description: Creates redaction_policies (per-group redact/hash/drop mode), redaction_counts
+--              and record_redactions(), which adds to the counts
+
+-- Groups without a row use REDACTION_MODE
+CREATE TABLE IF NOT EXISTS redaction_policies (
+  group_id BIGINT PRIMARY KEY REFERENCES chats(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL CHECK (mode IN ('redact', 'hash', 'drop')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- What the pipeline found, per group and kind of data (no values are stored)
+CREATE TABLE IF NOT EXISTS redaction_counts (
+  group_id BIGINT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  detector TEXT NOT NULL,
+  matches BIGINT NOT NULL DEFAULT 0,
+  messages BIGINT NOT NULL DEFAULT 0,
+  dropped BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (group_id, detector)
+);
+
+-- Add one message's findings to the counts
+-- p_matches maps detector names to the number of values found
+CREATE OR REPLACE FUNCTION record_redactions(p_group_id BIGINT, p_matches JSONB, p_dropped BOOLEAN DEFAULT FALSE)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO redaction_counts AS rc (group_id, detector, matches, messages, dropped, updated_at)
+  SELECT p_group_id, m.key, m.value::BIGINT, 1, CASE WHEN p_dropped THEN 1 ELSE 0 END, NOW()
+  FROM jsonb_each_text(p_matches) AS m
+  ON CONFLICT (group_id, detector) DO UPDATE
+  SET matches = rc.matches + EXCLUDED.matches,
+      messages = rc.messages + 1,
+      dropped = rc.dropped + EXCLUDED.dropped,
+      updated_at = NOW()
+$$;
+
+COMMENT ON TABLE redaction_policies IS 'Per-group handling of personal data: redact, hash or drop the message';
+COMMENT ON TABLE redaction_counts IS 'Personal data found during ingestion, per group and detector';
+COMMENT ON COLUMN redaction_counts.matches IS 'Values redacted or hashed, including those in dropped messages';
+COMMENT ON COLUMN redaction_counts.dropped IS 'Messages not stored because they contained this kind of data';
+COMMENT ON FUNCTION record_redactions IS 'Add the personal data found in one message to redaction_counts';
@@ -0,0 +1,5 @@
+// The pgvector extension is a subpath export, which moduleResolution "node" does not resolve
+declare module '@electric-sql/pglite/vector' {
+  import type { Extension } from '@electric-sql/pglite';
+  export const vector: Extension;
+}
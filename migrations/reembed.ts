@@ -0,0 +1,261 @@
+/**
+ * Embedding Backfill Runner
+ * Generates vectors for existing conversations and writes them back
+ *
+ * Pages through conversations in id order, embeds each page with
+ * generateBatchEmbeddings and pauses between batches to respect provider
+ * rate limits. Progress is checkpointed after every batch, so an
+ * interrupted run resumes where it stopped when started with the same filters.
+ * Rows whose embedding expired under the retention policy are skipped.
+ *
+ * Usage: npm run reembed -- [options]
+ *   --only-missing     Only rows without a vector
+ *   --group <id>       Only rows from one group/channel
+ *   --model <name>     Only rows embedded with this model (e.g. to replace stale vectors)
+ *   --batch-size <n>   Rows per provider call (default: 50)
+ *   --delay-ms <n>     Pause between batches in milliseconds (default: 1000)
+ *   --reset            Ignore any saved checkpoint and start from the beginning
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { loadConfig } from '../src/config.js';
+import { initSupabase, fetchMessagesForEmbedding, updateMessageEmbedding } from '../src/supabase.js';
+import {
+  initEmbeddings,
+  verifyEmbeddingSchema,
+  generateBatchEmbeddings,
+  getEmbeddingModel,
+} from '../src/embeddings.js';
+
+// Fix __dirname for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CHECKPOINT_FILE = path.join(__dirname, '.reembed-checkpoint.json');
+
+interface ReembedOptions {
+  onlyMissing: boolean;
+  groupId?: number;
+  model?: string;
+  batchSize: number;
+  delayMs: number;
+  reset: boolean;
+}
+
+interface Checkpoint {
+  /** Filters the checkpoint was written for */
+  filters: string;
+  /** Highest conversation id already processed */
+  lastId: number;
+  updated: number;
+  failed: number;
+}
+
+/**
+ * Parse command line arguments
+ *
+ * @param argv Arguments after the script name
+ * @returns Parsed options
+ * @throws Error on unknown or malformed arguments
+ */
+function parseArgs(argv: string[]): ReembedOptions {
+  const options: ReembedOptions = {
+    onlyMissing: false,
+    batchSize: 50,
+    delayMs: 1000,
+    reset: false,
+  };
+
+  const readNumber = (flag: string, value?: string): number => {
+    const parsed = Number(value);
+    if (value === undefined || isNaN(parsed)) {
+      throw new Error(`${flag} requires a numeric value`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--only-missing':
+        options.onlyMissing = true;
+        break;
+      case '--group':
+        options.groupId = readNumber(arg, argv[++i]);
+        break;
+      case '--model':
+        options.model = argv[++i];
+        if (!options.model) throw new Error('--model requires a model name');
+        break;
+      case '--batch-size':
+        options.batchSize = readNumber(arg, argv[++i]);
+        break;
+      case '--delay-ms':
+        options.delayMs = readNumber(arg, argv[++i]);
+        break;
+      case '--reset':
+        options.reset = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Serialize the row filters so a checkpoint is only reused for the same selection
+ *
+ * @param options Parsed options
+ * @returns Stable string key
+ */
+function filtersKey(options: ReembedOptions): string {
+  return JSON.stringify({
+    onlyMissing: options.onlyMissing,
+    groupId: options.groupId ?? null,
+    model: options.model ?? null,
+    target: getEmbeddingModel(),
+  });
+}
+
+/**
+ * Load the saved checkpoint if it matches the current filters
+ *
+ * @param filters Filters key for this run
+ * @returns Checkpoint to resume from, or a fresh one
+ */
+function loadCheckpoint(filters: string): Checkpoint {
+  const fresh: Checkpoint = { filters, lastId: 0, updated: 0, failed: 0 };
+  if (!fs.existsSync(CHECKPOINT_FILE)) {
+    return fresh;
+  }
+
+  try {
+    const saved = JSON.parse(fs.readFileSync(CHECKPOINT_FILE, 'utf-8')) as Checkpoint;
+    if (saved.filters !== filters) {
+      console.log('⚠️  Checkpoint was written for different filters, starting over\n');
+      return fresh;
+    }
+    return saved;
+  } catch {
+    console.log('⚠️  Could not read checkpoint, starting over\n');
+    return fresh;
+  }
+}
+
+/**
+ * Persist progress after a batch
+ *
+ * @param checkpoint Current progress
+ */
+function saveCheckpoint(checkpoint: Checkpoint): void {
+  fs.writeFileSync(CHECKPOINT_FILE, JSON.stringify(checkpoint, null, 2));
+}
+
+/**
+ * Wait between batches to stay under provider rate limits
+ *
+ * @param ms Milliseconds to wait
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Re-embed all selected conversations
+ *
+ * @param options Parsed options
+ */
+async function reembed(options: ReembedOptions): Promise<void> {
+  const model = getEmbeddingModel();
+  if (!model) {
+    throw new Error('No embedding provider available');
+  }
+
+  const filters = filtersKey(options);
+  if (options.reset && fs.existsSync(CHECKPOINT_FILE)) {
+    fs.unlinkSync(CHECKPOINT_FILE);
+  }
+  const checkpoint = loadCheckpoint(filters);
+  if (checkpoint.lastId > 0) {
+    console.log(`↪️  Resuming after conversation id ${checkpoint.lastId}\n`);
+  }
+
+  while (true) {
+    const rows = await fetchMessagesForEmbedding({
+      afterId: checkpoint.lastId,
+      limit: options.batchSize,
+      onlyMissing: options.onlyMissing,
+      groupId: options.groupId,
+      model: options.model,
+    });
+    if (rows.length === 0) {
+      break;
+    }
+
+    const results = await generateBatchEmbeddings(rows.map((row) => row.text));
+
+    for (let i = 0; i < rows.length; i++) {
+      const id = Number(rows[i].id);
+      const embedding = results[i]?.embedding;
+      if (embedding && (await updateMessageEmbedding(id, embedding, model, rows[i].text))) {
+        checkpoint.updated++;
+      } else {
+        checkpoint.failed++;
+      }
+      checkpoint.lastId = id;
+    }
+
+    saveCheckpoint(checkpoint);
+    console.log(
+      `  ✅ Batch done (up to id ${checkpoint.lastId}): ${checkpoint.updated} updated, ${checkpoint.failed} failed`
+    );
+
+    if (rows.length < options.batchSize) {
+      break;
+    }
+    await sleep(options.delayMs);
+  }
+
+  console.log('='.repeat(60));
+  console.log('📊 Re-embedding Summary');
+  console.log('='.repeat(60));
+  console.log(`✅ Updated: ${checkpoint.updated}`);
+  console.log(`❌ Failed: ${checkpoint.failed}`);
+  console.log('='.repeat(60));
+  console.log('');
+
+  // A finished run leaves nothing to resume
+  if (fs.existsSync(CHECKPOINT_FILE)) {
+    fs.unlinkSync(CHECKPOINT_FILE);
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    const config = loadConfig();
+
+    initSupabase(config.supabaseUrl, config.supabaseKey);
+    await initEmbeddings(config);
+    if (!(await verifyEmbeddingSchema())) {
+      console.error('❌ Embedding provider unavailable or incompatible with the schema');
+      process.exit(1);
+    }
+
+    console.log(`🔄 Re-embedding conversations with ${getEmbeddingModel()}...\n`);
+    await reembed(options);
+  } catch (error) {
+    console.error('❌ Re-embedding error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
@@ -3,7 +3,7 @@
  * Executes SQL migration files directly against Supabase PostgreSQL
  *
  * Migrations are executed in alphabetical order (e.g., 001_*, 002_*, etc.)
- * Each migration is executed as individual SQL statements.
+ * Each migration is executed as individual SQL statements (see sql.ts).
  *
  * Usage: npm run migrate
  */
@@ -14,6 +14,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 // @ts-ignore
 import pg from 'pg';
+import { splitStatements } from './sql.js';
 const { Client } = pg;
 
 // Fix __dirname for ES modules
@@ -82,10 +83,7 @@ async function executeSql(sql: string): Promise<{ success: boolean; error?: stri
     console.log('  ✅ Connected to Supabase PostgreSQL');
 
     // Split statements and execute them
-    const statements = sql
-      .split(';')
-      .map((stmt) => stmt.trim())
-      .filter((stmt) => stmt.length > 0 && !stmt.startsWith('--'));
+    const statements = splitStatements(sql);
 
     console.log(`  Executing ${statements.length} statement(s)...\n`);
 
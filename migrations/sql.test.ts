@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/vector';
+import { splitStatements } from './sql.js';
+
+const migrationsDir = path.dirname(fileURLToPath(import.meta.url));
+
+/** Migration files in the order run.ts applies them */
+const migrationFiles = fs.readdirSync(migrationsDir).filter((f) => /^\d+_.*\.sql$/.test(f)).sort();
+
+/** First words a migration statement may start with */
+const STATEMENT_START = /^(CREATE|ALTER|DROP|COMMENT|INSERT|UPDATE|DELETE|DO|SELECT|GRANT|REVOKE|WITH)\b/i;
+
+test('keeps semicolons inside quoted strings', () => {
+  assert.deepEqual(splitStatements("COMMENT ON TABLE t IS 'a; b'; SELECT 1;"), [
+    "COMMENT ON TABLE t IS 'a; b'",
+    'SELECT 1',
+  ]);
+});
+
+test("handles '' escapes and E-strings", () => {
+  assert.deepEqual(splitStatements("SELECT 'it''s; fine'; SELECT E'\\'; still'; SELECT 2"), [
+    "SELECT 'it''s; fine'",
+    "SELECT E'\\'; still'",
+    'SELECT 2',
+  ]);
+});
+
+test('keeps dollar-quoted bodies and drops comments', () => {
+  const sql = [
+    '-- header; with a semicolon',
+    'CREATE FUNCTION f() RETURNS INT LANGUAGE sql AS $body$ SELECT 1; $body$; /* a; /* nested; */ comment */',
+    'DO $$ BEGIN PERFORM 1; END $$; SELECT $1 -- trailing; comment',
+  ].join('\n');
+  assert.deepEqual(splitStatements(sql), [
+    'CREATE FUNCTION f() RETURNS INT LANGUAGE sql AS $body$ SELECT 1; $body$',
+    'DO $$ BEGIN PERFORM 1; END $$',
+    'SELECT $1',
+  ]);
+});
+
+test('rejects unterminated quotes', () => {
+  assert.throws(() => splitStatements("SELECT 'oops;"));
+});
+
+for (const file of migrationFiles) {
+  test(`splits ${file} into whole statements`, () => {
+    const statements = splitStatements(fs.readFileSync(path.join(migrationsDir, file), 'utf-8'));
+    assert.ok(statements.length > 0);
+    for (const statement of statements) {
+      assert.match(statement, STATEMENT_START, `unexpected statement start: ${statement.slice(0, 80)}`);
+      // Every statement must survive a second pass unchanged, i.e. contain no top-level `;`
+      assert.deepEqual(splitStatements(statement), [statement]);
+      if (/^COMMENT ON/i.test(statement)) {
+        assert.match(statement, /\bIS\s+'(?:[^']|'')*'$/, `truncated comment: ${statement.slice(0, 80)}`);
+      }
+    }
+  });
+}
+
+// npm run migrate applies every file on each run, so a second run must succeed too
+test('applies all migrations twice', async () => {
+  const db = new PGlite({ extensions: { vector } });
+  try {
+    for (const run of [1, 2]) {
+      for (const file of migrationFiles) {
+        for (const statement of splitStatements(fs.readFileSync(path.join(migrationsDir, file), 'utf-8'))) {
+          await db.query(statement).catch((error: Error) => {
+            assert.fail(`run ${run}, ${file}: ${error.message}\n${statement.slice(0, 80)}`);
+          });
+        }
+      }
+    }
+  } finally {
+    await db.close();
+  }
+});
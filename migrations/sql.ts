@@ -0,0 +1,123 @@
+/**
+ * SQL statement splitter for the migration runner
+ * Postgres only accepts one statement per prepared query, so migration files
+ * are split on top-level semicolons. Semicolons inside quoted text are kept:
+ * - '...' strings, including '' escapes
+ * - E'...' strings, including backslash escapes
+ * - "..." identifiers
+ * - $$...$$ and $tag$...$tag$ bodies
+ * Comments (-- to end of line and nested block comments) are dropped.
+ */
+
+/**
+ * Find where a dollar-quote tag such as $$ or $body$ starts at a position
+ * @param sql SQL text
+ * @param i Position of a `$`
+ * @returns The tag including both `$`, or null if the `$` is not a dollar quote
+ * @private
+ */
+function dollarTag(sql: string, i: number): string | null {
+  const match = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+  // A `$` right after an identifier character is part of a name or a parameter such as $1
+  if (!match || (i > 0 && /[A-Za-z0-9_]/.test(sql[i - 1]))) return null;
+  return match[0];
+}
+
+/**
+ * Find the end of a quoted string or identifier
+ * @param sql SQL text
+ * @param start Position of the opening quote
+ * @param quote Quote character (' or ")
+ * @param backslashEscapes Whether \ escapes the next character (E'...' strings)
+ * @returns Position just after the closing quote
+ * @throws Error if the quote is never closed
+ * @private
+ */
+function quotedEnd(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === quote) {
+      // A doubled quote is an escaped quote
+      if (sql[i + 1] !== quote) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  throw new Error(`Unterminated ${quote} quote starting at offset ${start}`);
+}
+
+/**
+ * Find the end of a block comment (block comments nest in Postgres)
+ * @param sql SQL text
+ * @param start Position of the opening `/*`
+ * @returns Position just after the matching close
+ * @throws Error if the comment is never closed
+ * @private
+ */
+function blockCommentEnd(sql: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < sql.length) {
+    if (sql.startsWith('/*', i)) {
+      depth++;
+      i += 2;
+    } else if (sql.startsWith('*/', i)) {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  throw new Error(`Unterminated block comment starting at offset ${start}`);
+}
+
+/**
+ * Split migration SQL into individual statements
+ * @param sql SQL content to split
+ * @returns Array of non-empty SQL statements, without comments
+ * @throws Error on an unterminated string, identifier, dollar quote or comment
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (sql.startsWith('--', i)) {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline;
+    } else if (sql.startsWith('/*', i)) {
+      i = blockCommentEnd(sql, i);
+      current += ' ';
+    } else if (char === "'" || char === '"') {
+      const escaped = char === "'" && i > 0 && /[eE]/.test(sql[i - 1]) && !/[A-Za-z0-9_]/.test(sql[i - 2] ?? '');
+      const end = quotedEnd(sql, i, char, escaped);
+      current += sql.slice(i, end);
+      i = end;
+    } else if (char === '$' && dollarTag(sql, i)) {
+      const tag = dollarTag(sql, i)!;
+      const close = sql.indexOf(tag, i + tag.length);
+      if (close === -1) {
+        throw new Error(`Unterminated ${tag} quote starting at offset ${i}`);
+      }
+      current += sql.slice(i, close + tag.length);
+      i = close + tag.length;
+    } else if (char === ';') {
+      statements.push(current.trim());
+      current = '';
+      i++;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+  statements.push(current.trim());
+
+  return statements.filter((stmt) => stmt.length > 0);
+}
@@ -0,0 +1,114 @@
+/**
+ * Access control module for question answering
+ * Decides which groups' messages a user may receive answers from
+ *
+ * - Admins (ADMIN_USER_IDS) may query every group
+ * - Everyone else only gets answers from groups they currently belong to,
+ *   based on tracked memberships re-verified with getChatMember
+ * - Watch alerts use the same check (verifyMembership) before each DM
+ */
+
+import { Api, GrammyError } from 'grammy';
+import { getMemberGroupIds, upsertChatMember } from './supabase.js';
+import { logger } from './logger.js';
+
+/** Telegram member statuses that count as belonging to a group */
+const ACTIVE_MEMBER_STATUSES = ['creator', 'administrator', 'member', 'restricted'];
+
+let adminUserIds = new Set<number>();
+
+/**
+ * Initialize access control with the configured admin allow-list
+ * @param admins Telegram user IDs allowed to query all groups
+ */
+export function initAccessControl(admins: number[]): void {
+  adminUserIds = new Set(admins);
+  logger.info(`✅ Access control initialized (${adminUserIds.size} admin(s))`);
+}
+
+/**
+ * Check if a user is on the admin allow-list
+ * @param userId Telegram user ID
+ * @returns True if the user may query all groups
+ */
+export function isAdminUser(userId: number): boolean {
+  return adminUserIds.has(userId);
+}
+
+/**
+ * Check if a Telegram member status counts as membership
+ * @param status Telegram chat member status
+ * @returns True for creator, administrator, member and restricted
+ */
+export function isActiveMemberStatus(status: string): boolean {
+  return ACTIVE_MEMBER_STATUSES.includes(status);
+}
+
+/**
+ * Record a membership observed from an incoming update
+ * @param groupId Group/channel ID
+ * @param userId Telegram user ID
+ * @param status Telegram member status (defaults to 'member' for message senders)
+ */
+export async function trackMembership(
+  groupId: number,
+  userId: number,
+  status: string = 'member'
+): Promise<void> {
+  await upsertChatMember(groupId, userId, status);
+}
+
+/**
+ * Check with Telegram that a user still belongs to a group
+ * A stale tracked membership is updated: to the reported status, or to
+ * 'left' when Telegram rejects the lookup (bot removed, user unknown there).
+ * Network failures leave the tracked membership as it is.
+ * @param api Grammy API instance used for the getChatMember check
+ * @param groupId Group/channel ID
+ * @param userId Telegram user ID
+ * @returns True if the user is a current member
+ */
+export async function verifyMembership(api: Api, groupId: number, userId: number): Promise<boolean> {
+  try {
+    const member = await api.getChatMember(groupId, userId);
+    if (isActiveMemberStatus(member.status)) {
+      return true;
+    }
+    await upsertChatMember(groupId, userId, member.status);
+  } catch (error) {
+    logger.debug(`[ACCESS] Could not verify user ${userId} in group ${groupId}:`, error);
+    if (error instanceof GrammyError) {
+      await upsertChatMember(groupId, userId, 'left');
+    }
+  }
+  return false;
+}
+
+/**
+ * Resolve the groups a user may receive answers from
+ * Tracked memberships are re-verified with Telegram so users who left
+ * a group lose access even if the leave update was never received.
+ * @param api Grammy API instance used for getChatMember checks
+ * @param userId Telegram user ID of the asker
+ * @returns null for unrestricted (admin) access, otherwise the allowed group IDs
+ */
+export async function getAccessibleGroupIds(
+  api: Api,
+  userId: number
+): Promise<number[] | null> {
+  if (isAdminUser(userId)) {
+    return null;
+  }
+
+  const candidates = await getMemberGroupIds(userId, ACTIVE_MEMBER_STATUSES);
+  const allowed: number[] = [];
+
+  for (const groupId of candidates) {
+    if (await verifyMembership(api, groupId, userId)) {
+      allowed.push(groupId);
+    }
+  }
+
+  logger.debug(`[ACCESS] User ${userId} may query ${allowed.length} group(s)`);
+  return allowed;
+}
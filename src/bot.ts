@@ -0,0 +1,281 @@
+/**
+ * Bot construction shared by all entry points
+ * The polling/webhook server (bot.ts) and the serverless webhook
+ * (api/webhook.ts) both build their bot here so handlers cannot drift apart.
+ */
+
+import { Bot, Context } from 'grammy';
+import { BotConfig } from './types.js';
+import { initSupabase, ensureTables } from './supabase.js';
+import { initEmbeddings, verifyEmbeddingSchema } from './embeddings.js';
+import { initLLM } from './llm.js';
+import { initAccessControl } from './access.js';
+import { rememberChat } from './directory.js';
+import { initDocumentExtraction } from './media.js';
+import { initPromptBudget } from './prompt.js';
+import { initSessions } from './sessions.js';
+import { initEventExtraction } from './events.js';
+import { initWatches } from './watches.js';
+import { initRedaction } from './redaction.js';
+import { defaultIngestionDeps, ingestEdit, ingestMessage, IngestionDeps } from './ingestion.js';
+import {
+  handleStartCommand,
+  handleOptoutCommand,
+  handleOptinCommand,
+  handleStatsCommand,
+  handleCallbackQuery,
+  handleAskCommand,
+  handleMentionAsk,
+  handleSearchCommand,
+  handlePrivateFollowUp,
+  handleResetCommand,
+  handleDigestCommand,
+  handleRetentionCommand,
+  handleRedactionCommand,
+  handleEventsCommand,
+  handleWatchCommand,
+  handleWatchesCommand,
+  handleUnwatchCommand,
+  handleMyDataCommand,
+  handleChatMemberUpdate,
+} from './handlers.js';
+import { logger } from './logger.js';
+
+/** Updates the bot subscribes to; chat_member updates must be requested explicitly */
+export const ALLOWED_UPDATES = [
+  'message',
+  'edited_message',
+  'channel_post',
+  'edited_channel_post',
+  'callback_query',
+  'my_chat_member',
+  'chat_member',
+] as const;
+
+/** Posted when the bot joins a group */
+const WELCOME_NOTICE =
+  'Thank you for including RaidGuild in your conversations. Our bot can not read past messages, so make sure important conversations or warm introductions are reposted.\n\n' +
+  "If you would like to ask the RaidGuild_bot a question, you can either DM it, or you can @ mention it in the channel, '@RaidGuild_bot who is involved in the Avengers Initiative?'\n\n" +
+  'Thank you :)';
+
+/**
+ * Services the bot depends on; override for tests
+ */
+export type BotDeps = IngestionDeps;
+
+/**
+ * Initialize database, embeddings, answer provider, access control, document and event extraction,
+ * watch alerts and redaction
+ * @param config Bot configuration
+ */
+export async function initBotServices(config: BotConfig): Promise<void> {
+  initSupabase(config.supabaseUrl, config.supabaseKey);
+  await ensureTables();
+  logger.info('✅ Database initialized');
+
+  await initEmbeddings(config);
+  await verifyEmbeddingSchema();
+  await initLLM(config);
+  initPromptBudget(config);
+  initSessions(config);
+  initAccessControl(config.adminUserIds);
+  initDocumentExtraction(config);
+  initEventExtraction(config);
+  initWatches(config);
+  initRedaction(config);
+}
+
+/**
+ * Check if the message @mentions the bot
+ * @private
+ */
+function isBotMentioned(ctx: Context): boolean {
+  const botUsername = ctx.me?.username ? `@${ctx.me.username}`.toLowerCase() : '';
+  return !!ctx.msg?.entities?.some(
+    (e) =>
+      e.type === 'mention' &&
+      ctx.msg?.text?.substring(e.offset, e.offset + e.length).toLowerCase() === botUsername
+  );
+}
+
+/**
+ * Create a bot with all commands and update handlers registered
+ * @param config Bot configuration
+ * @param deps Services used by the ingestion pipeline (defaults to Supabase)
+ * @returns Configured Grammy bot (not started)
+ */
+export function createBot(config: BotConfig, deps: BotDeps = defaultIngestionDeps): Bot {
+  const bot = new Bot(config.telegramBotToken);
+
+  /**
+   * Register command handlers
+   */
+  bot.command('start', handleStartCommand);
+  bot.command('optout', handleOptoutCommand);
+  bot.command('optin', handleOptinCommand);
+  bot.command('stats', handleStatsCommand);
+  bot.command('ask', handleAskCommand);
+  bot.command('search', handleSearchCommand);
+  bot.command('reset', handleResetCommand);
+  bot.command('digest', handleDigestCommand);
+  bot.command('retention', handleRetentionCommand);
+  bot.command('redaction', handleRedactionCommand);
+  bot.command('events', handleEventsCommand);
+  bot.command('watch', handleWatchCommand);
+  bot.command('watches', handleWatchesCommand);
+  bot.command('unwatch', handleUnwatchCommand);
+  bot.command('mydata', handleMyDataCommand);
+  bot.hears(/^\/ask\b/, handleAskCommand);
+
+  // Catch-all message logger for debugging
+  bot.on('message', (ctx, next) => {
+    logger.debug('[CATCH-ALL] Received message:', {
+      chatType: ctx.chat?.type,
+      chatId: ctx.chat?.id,
+      fromId: ctx.from?.id,
+      text: ctx.message?.text,
+      entities: ctx.message?.entities,
+      raw: ctx.message,
+    });
+    return next(); // Allow other handlers to process this message
+  });
+
+  /**
+   * Respond to @mentions in groups/channels
+   * Also handle bot being added via new_chat_member(s) in message event
+   */
+  bot.on('message', async (ctx, next) => {
+    const inGroup = ctx.chat.type === 'group' || ctx.chat.type === 'supergroup';
+
+    // Handle @mention; do not return so the ingestion handler still runs
+    if (inGroup && isBotMentioned(ctx)) {
+      await handleMentionAsk(ctx);
+    }
+
+    // Handle bot being added via new_chat_member(s)
+    const newMembers = ctx.message.new_chat_members;
+    if (inGroup && newMembers?.some((m) => m.id === ctx.me.id)) {
+      try {
+        await ctx.api.sendMessage(ctx.chat.id, WELCOME_NOTICE, { parse_mode: 'HTML' });
+      } catch (err) {
+        logger.warn('[new_chat_member] Could not post public notice in group:', err);
+      }
+    }
+
+    return next();
+  });
+
+  /**
+   * Treat plain private-chat messages as follow-ups while an /ask session is active
+   */
+  bot.on('message:text', async (ctx, next) => {
+    if (ctx.chat.type === 'private') {
+      await handlePrivateFollowUp(ctx);
+    }
+    return next();
+  });
+
+  /**
+   * Register callback query handler for menu interactions
+   */
+  bot.on('callback_query', handleCallbackQuery);
+
+  /**
+   * Track membership changes for DM /ask access control
+   */
+  bot.on('chat_member', handleChatMemberUpdate);
+
+  /**
+   * Handle bot being added to a group/channel (my_chat_member event)
+   * Telegram bots cannot fetch history, so announce that only new messages are ingested
+   */
+  bot.on('my_chat_member', async (ctx) => {
+    try {
+      const chat = ctx.chat;
+      const newStatus = ctx.myChatMember.new_chat_member.status;
+      const oldStatus = ctx.myChatMember.old_chat_member.status;
+      logger.info(`[my_chat_member] Chat ${chat.id} status changed: ${oldStatus} -> ${newStatus}`);
+      await rememberChat(chat);
+
+      // Only act if bot was added (became member or admin)
+      if (!['member', 'administrator'].includes(newStatus)) {
+        return;
+      }
+      logger.info(`[my_chat_member] Bot added to chat ${chat.id}. Due to Telegram API limitations, only new messages will be ingested from now on.`);
+
+      if (chat.type !== 'group' && chat.type !== 'supergroup') {
+        return;
+      }
+
+      // Post public message in the group
+      try {
+        await ctx.api.sendMessage(chat.id, WELCOME_NOTICE, { parse_mode: 'HTML' });
+      } catch (err) {
+        logger.warn('[my_chat_member] Could not post public notice in group:', err);
+      }
+
+      // Also try to DM admins (best effort)
+      try {
+        const admins = await ctx.api.getChatAdministrators(chat.id);
+        for (const admin of admins) {
+          try {
+            await ctx.api.sendMessage(admin.user.id, WELCOME_NOTICE, { parse_mode: 'HTML' });
+          } catch (err) {
+            logger.warn(`[my_chat_member] Could not notify admin ${admin.user.id}:`, err);
+          }
+        }
+      } catch (err) {
+        logger.warn('[my_chat_member] Could not fetch or notify group admins:', err);
+      }
+    } catch (error) {
+      logger.error('[my_chat_member] Error handling event:', error);
+    }
+  });
+
+  /**
+   * Handle incoming messages
+   * Checks opt-out status, stores in database and queues the embedding job
+   */
+  bot.on('message', async (ctx, next) => {
+    try {
+      const outcome = await ingestMessage(ctx.message, deps);
+      logger.debug(`[INGEST] Message ${ctx.message.message_id} in chat ${ctx.chat.id}: ${outcome}`);
+    } catch (error) {
+      logger.error('Error processing message:', error);
+    }
+    return next();
+  });
+
+  /**
+   * Handle channel posts
+   * Answers @mentions in the channel and ingests the post
+   */
+  bot.on('channel_post', async (ctx) => {
+    if (isBotMentioned(ctx)) {
+      await handleMentionAsk(ctx);
+    }
+    try {
+      const outcome = await ingestMessage(ctx.channelPost, deps);
+      logger.debug(`[INGEST] Channel post ${ctx.channelPost.message_id} in chat ${ctx.chat.id}: ${outcome}`);
+    } catch (error) {
+      logger.error('Error processing channel post:', error);
+    }
+  });
+
+  /**
+   * Handle edited messages and channel posts
+   * Updates the stored text, keeps the previous version and re-queues the embedding
+   */
+  bot.on(['edited_message', 'edited_channel_post'], async (ctx) => {
+    try {
+      const edited = ctx.editedMessage ?? ctx.editedChannelPost;
+      if (!edited) return;
+      const outcome = await ingestEdit(edited, deps);
+      logger.debug(`[INGEST] Edit of message ${edited.message_id} in chat ${edited.chat.id}: ${outcome}`);
+    } catch (error) {
+      logger.error('Error processing edited message:', error);
+    }
+  });
+
+  return bot;
+}
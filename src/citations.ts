@@ -0,0 +1,208 @@
+/**
+ * Citations module for generated answers
+ * Turns the [n] references the model cites (see buildOpenAIPrompt) into
+ * links to the original Telegram messages and a "Sources" button
+ *
+ * The button's callback data carries the citation numbers and
+ * conversation IDs (base 36) so the source list can be rebuilt later,
+ * even in serverless deployments; it is capped by Telegram's 64-byte limit.
+ * Rendered answers longer than one Telegram message are split with
+ * splitHtmlMessage.
+ */
+
+import { InlineKeyboard } from 'grammy';
+import { ConversationRecord } from './types.js';
+import { escapeHtml, formatMessageLine, messageLink } from './search.js';
+
+/** Callback data prefix of the sources button */
+export const SOURCES_CALLBACK = 'sources:';
+
+/** Telegram's limit on callback data length in bytes */
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+/** Telegram's limit on message length */
+export const MAX_MESSAGE_LENGTH = 4096;
+
+/** Citation groups like [2] or [1, 3] */
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/** Tags, entities and single characters of rendered HTML */
+const HTML_TOKEN_PATTERN = /<[^>]*>|&#?\w+;|[\s\S]/g;
+
+/**
+ * A context message cited in an answer
+ */
+export interface CitedSource {
+  /** Number the message had in the prompt */
+  number: number;
+  /** The cited message */
+  record: ConversationRecord;
+}
+
+/**
+ * A source reference decoded from callback data
+ */
+export interface SourceReference {
+  /** Number the message had in the prompt */
+  number: number;
+  /** conversations.id of the message */
+  id: number;
+}
+
+/**
+ * Render an answer as HTML with its citations linked to the cited messages
+ * Numbers outside the context are left as plain text
+ * @param answer Model answer (plain text)
+ * @param messages Context messages in prompt order
+ * @returns HTML answer and the cited messages in order of first citation
+ */
+export function renderCitations(
+  answer: string,
+  messages: ConversationRecord[]
+): { html: string; sources: CitedSource[] } {
+  const cited = new Map<number, CitedSource>();
+
+  const html = escapeHtml(answer).replace(CITATION_PATTERN, (group: string, numbers: string) => {
+    const parts = numbers.split(',').map((part) => {
+      const n = parseInt(part.trim(), 10);
+      const record = messages[n - 1];
+      if (!record) {
+        return String(n);
+      }
+      if (!cited.has(n)) {
+        cited.set(n, { number: n, record });
+      }
+      const link = messageLink(record);
+      return link ? `<a href="${link}">${n}</a>` : String(n);
+    });
+    return `[${parts.join(', ')}]`;
+  });
+
+  return { html, sources: [...cited.values()] };
+}
+
+/**
+ * Closing tags for the tags open at a position, innermost first
+ * @param openTags Opening tags, outermost first
+ * @returns Closing tags such as </a></b>
+ * @private
+ */
+function closingTags(openTags: string[]): string {
+  return openTags
+    .map((tag) => `</${/^<(\w+)/.exec(tag)?.[1] ?? ''}>`)
+    .reverse()
+    .join('');
+}
+
+/**
+ * Find where to end the first message of an HTML text that is too long
+ * Prefers a paragraph break, then a line break, then a space, as long as it
+ * keeps at least half of the message; never cuts inside a tag or entity
+ * @param html HTML text longer than the limit
+ * @param limit Maximum message length
+ * @returns Cut position and the tags open there
+ * @private
+ */
+function findHtmlCut(html: string, limit: number): { at: number; openTags: string[] } {
+  const openTags: string[] = [];
+  let paragraph = { at: 0, openTags };
+  let line = paragraph;
+  let space = paragraph;
+  let any = paragraph;
+
+  for (const match of html.matchAll(HTML_TOKEN_PATTERN)) {
+    const token = match[0];
+    const at = match.index ?? 0;
+    if (at + closingTags(openTags).length > limit) break;
+
+    const cut = { at, openTags: [...openTags] };
+    any = cut;
+    if (token === ' ') space = cut;
+    if (token === '\n') line = cut;
+    if (token === '\n' && html[at + 1] === '\n') paragraph = cut;
+
+    if (token.startsWith('</')) openTags.pop();
+    else if (token.startsWith('<')) openTags.push(token);
+  }
+
+  const min = limit / 2;
+  return [paragraph, line, space].find((cut) => cut.at > min) ?? any;
+}
+
+/**
+ * Split an HTML message into parts that fit Telegram's length limit
+ * Tags open at a cut are closed at the end of one part and reopened at the
+ * start of the next, so each part is valid HTML on its own
+ * @param html HTML message (parse_mode HTML)
+ * @param limit Maximum length of a part
+ * @returns One or more parts, in order
+ */
+export function splitHtmlMessage(html: string, limit: number = MAX_MESSAGE_LENGTH): string[] {
+  const parts: string[] = [];
+  let rest = html.trim();
+  while (rest.length > limit) {
+    const cut = findHtmlCut(rest, limit);
+    parts.push(rest.slice(0, cut.at).trimEnd() + closingTags(cut.openTags));
+    rest = cut.openTags.join('') + rest.slice(cut.at).trimStart();
+  }
+  parts.push(rest);
+  return parts;
+}
+
+/**
+ * Remove citation markers from an answer
+ * Used when an answer is kept as conversation history, where the numbers no longer apply
+ * @param answer Model answer (plain text)
+ * @returns Answer without [n] markers
+ */
+export function stripCitations(answer: string): string {
+  return answer.replace(CITATION_PATTERN, '').replace(/ +([.,;:!?])/g, '$1').replace(/ {2,}/g, ' ').trim();
+}
+
+/**
+ * Build the "Sources" button for an answer
+ * Sources that do not fit in the callback data are left out
+ * @param sources Cited messages
+ * @returns Keyboard, or undefined if nothing was cited
+ */
+export function sourcesKeyboard(sources: CitedSource[]): InlineKeyboard | undefined {
+  let data = SOURCES_CALLBACK;
+  let count = 0;
+  for (const { number, record } of sources) {
+    if (!record.id) continue;
+    const entry = `${count ? ',' : ''}${number}-${Number(record.id).toString(36)}`;
+    if (Buffer.byteLength(data + entry) > MAX_CALLBACK_DATA_BYTES) break;
+    data += entry;
+    count++;
+  }
+  return count ? new InlineKeyboard().text(`📚 Sources (${count})`, data) : undefined;
+}
+
+/**
+ * Decode the sources button's callback data
+ * @param data Callback data starting with SOURCES_CALLBACK
+ * @returns Source references, invalid entries dropped
+ */
+export function parseSourcesCallback(data: string): SourceReference[] {
+  return data
+    .slice(SOURCES_CALLBACK.length)
+    .split(',')
+    .map((entry) => {
+      const [number, id] = entry.split('-');
+      return { number: parseInt(number, 10), id: parseInt(id, 36) };
+    })
+    .filter((ref) => !isNaN(ref.number) && !isNaN(ref.id));
+}
+
+/**
+ * Format cited messages as an HTML list
+ * @param sources Cited messages, numbered as in the answer
+ * @returns Message text (parse_mode HTML)
+ */
+export function formatSources(sources: CitedSource[]): string {
+  if (!sources.length) {
+    return '📚 <b>Sources</b>\n\nThe cited messages are no longer available.';
+  }
+  const lines = sources.map(({ number, record }) => formatMessageLine(record, number));
+  return `📚 <b>Sources</b>\n\n${lines.join('\n\n')}`;
+}
@@ -3,9 +3,15 @@
  * Loads and validates environment variables with type safety
  */
 
-import { BotConfig } from './types.js';
+import { BotConfig, LLMProviderName, RedactionDetector, RedactionMode } from './types.js';
 import { logger } from './logger.js';
 
+/** Detectors of the redaction pipeline, in REDACTION_DETECTORS spelling */
+const REDACTION_DETECTORS: readonly RedactionDetector[] = ['email', 'phone', 'card', 'mnemonic', 'private_key'];
+
+/** Accepted REDACTION_MODE values */
+const REDACTION_MODES: readonly RedactionMode[] = ['redact', 'hash', 'drop'];
+
 /**
  * Load and validate bot configuration from environment variables
  * @returns Validated bot configuration
@@ -18,15 +24,70 @@ export function loadConfig(): BotConfig {
     supabaseKey: process.env.SUPABASE_KEY || '',
     openaiApiKey: process.env.OPENAI_API_KEY,
     geminiApiKey: process.env.GEMINI_API_KEY,
+    embeddingProvider: process.env.EMBEDDING_PROVIDER || undefined,
+    embeddingWorkerIntervalMs: parseInt(process.env.EMBEDDING_WORKER_INTERVAL_MS || '10000', 10),
+    cronSecret: process.env.CRON_SECRET,
     webhookUrl: process.env.WEBHOOK_URL,
     port: parseInt(process.env.PORT || '3000', 10),
     mode: (process.env.BOT_MODE as 'polling' | 'webhook') || 'polling',
+    adminUserIds: parseIdList(process.env.ADMIN_USER_IDS),
+    llmProvider: (process.env.LLM_PROVIDER as LLMProviderName) || undefined,
+    llmModel: process.env.LLM_MODEL,
+    llmBaseUrl: process.env.LLM_BASE_URL,
+    llmApiKey: process.env.LLM_API_KEY,
+    llmTemperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
+    llmMaxTokens: parseInt(process.env.LLM_MAX_TOKENS || '512', 10),
+    llmContextTokens: parseInt(process.env.LLM_CONTEXT_TOKENS || '3000', 10),
+    llmMaxMessageTokens: parseInt(process.env.LLM_MAX_MESSAGE_TOKENS || '300', 10),
+    askSessionTtlMinutes: parseInt(process.env.ASK_SESSION_TTL_MINUTES || '30', 10),
+    documentExtraction: process.env.DOCUMENT_EXTRACTION === 'true',
+    documentExtractionMaxBytes: parseInt(process.env.DOCUMENT_EXTRACTION_MAX_BYTES || '1048576', 10),
+    eventExtraction: process.env.EVENT_EXTRACTION !== 'false',
+    redaction: process.env.REDACTION !== 'false',
+    redactionDetectors: parseList(process.env.REDACTION_DETECTORS, REDACTION_DETECTORS) as RedactionDetector[],
+    redactionMode: (process.env.REDACTION_MODE as RedactionMode) || 'redact',
+    redactionHashKey: process.env.REDACTION_HASH_KEY || undefined,
+    watchAlertsPerHour: parseInt(process.env.WATCH_ALERTS_PER_HOUR || '10', 10),
+    watchSimilarityThreshold: parseFloat(process.env.WATCH_SIMILARITY_THRESHOLD || '0.5'),
   };
 
   validateConfig(config);
   return config;
 }
 
+/**
+ * Parse a comma-separated list of names
+ * @param value Raw environment variable value
+ * @param fallback List used when the variable is not set
+ * @returns Trimmed, lower-cased entries
+ * @private
+ */
+function parseList(value: string | undefined, fallback: readonly string[]): string[] {
+  if (!value) {
+    return [...fallback];
+  }
+  return value
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a comma-separated list of Telegram IDs
+ * @param value Raw environment variable value
+ * @returns Array of numeric IDs (invalid entries are dropped)
+ * @private
+ */
+function parseIdList(value?: string): number[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(',')
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !isNaN(id));
+}
+
 /**
  * Validate that all required configuration is present
  * @param config The configuration to validate
@@ -57,6 +118,80 @@ export function validateConfig(config: BotConfig): void {
     );
   }
 
+  // Validate answer provider configuration
+  const llmProviders: LLMProviderName[] = ['openai', 'gemini', 'openai-compatible'];
+  if (config.llmProvider && !llmProviders.includes(config.llmProvider)) {
+    throw new Error(
+      `LLM_PROVIDER must be one of: ${llmProviders.join(', ')}`
+    );
+  }
+  if (config.llmProvider === 'openai-compatible' && !config.llmBaseUrl) {
+    throw new Error(
+      'LLM_PROVIDER=openai-compatible requires LLM_BASE_URL environment variable'
+    );
+  }
+  if (isNaN(config.llmTemperature) || isNaN(config.llmMaxTokens) || config.llmMaxTokens <= 0) {
+    throw new Error(
+      'LLM_TEMPERATURE and LLM_MAX_TOKENS must be valid numbers'
+    );
+  }
+  if (
+    isNaN(config.llmContextTokens) ||
+    isNaN(config.llmMaxMessageTokens) ||
+    config.llmMaxMessageTokens <= 0 ||
+    config.llmContextTokens < config.llmMaxMessageTokens
+  ) {
+    throw new Error(
+      'LLM_CONTEXT_TOKENS and LLM_MAX_MESSAGE_TOKENS must be positive numbers, with LLM_CONTEXT_TOKENS >= LLM_MAX_MESSAGE_TOKENS'
+    );
+  }
+
+  if (config.documentExtraction && (isNaN(config.documentExtractionMaxBytes) || config.documentExtractionMaxBytes <= 0)) {
+    throw new Error(
+      'DOCUMENT_EXTRACTION_MAX_BYTES must be a positive number'
+    );
+  }
+
+  if (isNaN(config.watchAlertsPerHour) || config.watchAlertsPerHour <= 0) {
+    throw new Error(
+      'WATCH_ALERTS_PER_HOUR must be a positive number'
+    );
+  }
+
+  if (
+    isNaN(config.watchSimilarityThreshold) ||
+    config.watchSimilarityThreshold <= 0 ||
+    config.watchSimilarityThreshold > 1
+  ) {
+    throw new Error(
+      'WATCH_SIMILARITY_THRESHOLD must be between 0 and 1'
+    );
+  }
+
+  if (!REDACTION_MODES.includes(config.redactionMode)) {
+    throw new Error(
+      `REDACTION_MODE must be one of: ${REDACTION_MODES.join(', ')}`
+    );
+  }
+  if (config.redaction && config.redactionMode === 'hash' && !config.redactionHashKey) {
+    throw new Error(
+      'REDACTION_MODE=hash requires REDACTION_HASH_KEY environment variable'
+    );
+  }
+
+  const unknownDetectors = config.redactionDetectors.filter((detector) => !REDACTION_DETECTORS.includes(detector));
+  if (unknownDetectors.length) {
+    throw new Error(
+      `Unknown REDACTION_DETECTORS: ${unknownDetectors.join(', ')} (expected: ${REDACTION_DETECTORS.join(', ')})`
+    );
+  }
+
+  if (isNaN(config.askSessionTtlMinutes) || config.askSessionTtlMinutes <= 0) {
+    throw new Error(
+      'ASK_SESSION_TTL_MINUTES must be a positive number'
+    );
+  }
+
   // Validate webhook configuration if using webhook mode
   if (config.mode === 'webhook' && !config.webhookUrl) {
     throw new Error(
@@ -80,7 +215,25 @@ export function getMaskedConfig(config: BotConfig): Record<string, unknown> {
     embeddings: {
       openai: !!config.openaiApiKey,
       gemini: !!config.geminiApiKey,
+      provider: config.embeddingProvider || 'auto',
+    },
+    llm: {
+      provider: config.llmProvider || 'auto',
+      model: config.llmModel || 'default',
+      baseUrl: config.llmBaseUrl || 'N/A',
+      temperature: config.llmTemperature,
+      maxTokens: config.llmMaxTokens,
+      contextTokens: config.llmContextTokens,
+      maxMessageTokens: config.llmMaxMessageTokens,
     },
     webhook: config.mode === 'webhook' ? config.webhookUrl : 'N/A',
+    adminUsers: config.adminUserIds.length,
+    askSessionTtlMinutes: config.askSessionTtlMinutes,
+    embeddingWorkerIntervalMs: config.embeddingWorkerIntervalMs,
+    cronSecret: !!config.cronSecret,
+    documentExtraction: config.documentExtraction ? config.documentExtractionMaxBytes : false,
+    eventExtraction: config.eventExtraction,
+    redaction: config.redaction ? { mode: config.redactionMode, detectors: config.redactionDetectors } : false,
+    watchAlertsPerHour: config.watchAlertsPerHour,
   };
 }
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isCronRequestAuthorized } from './cron.js';
+
+test('accepts the configured bearer secret', () => {
+  assert.equal(isCronRequestAuthorized('Bearer s3cret', 's3cret'), true);
+});
+
+test('rejects a wrong or missing header', () => {
+  assert.equal(isCronRequestAuthorized('Bearer s3cre', 's3cret'), false);
+  assert.equal(isCronRequestAuthorized('s3cret', 's3cret'), false);
+  assert.equal(isCronRequestAuthorized(undefined, 's3cret'), false);
+});
+
+test('rejects every request without a configured secret', () => {
+  assert.equal(isCronRequestAuthorized('Bearer ', undefined), false);
+  assert.equal(isCronRequestAuthorized('Bearer ', ''), false);
+});
@@ -0,0 +1,29 @@
+/**
+ * Authorization of HTTP-triggered jobs
+ * api/embedding-worker.ts, api/digest.ts and api/retention.ts spend model
+ * credits, post messages and delete data, so they require
+ * "Authorization: Bearer <CRON_SECRET>" and refuse every request while
+ * CRON_SECRET is not configured
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { logger } from './logger.js';
+
+/**
+ * Check the Authorization header of a job request
+ * Compares digests in constant time, so neither the secret nor its length leaks
+ * @param authorization Authorization header of the request
+ * @param secret Configured CRON_SECRET
+ * @returns True if the request carries the secret
+ */
+export function isCronRequestAuthorized(authorization: unknown, secret: string | undefined): boolean {
+  if (!secret) {
+    logger.error('❌ CRON_SECRET is not set: refusing HTTP-triggered job requests');
+    return false;
+  }
+  if (typeof authorization !== 'string') {
+    return false;
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(authorization), digest(`Bearer ${secret}`));
+}
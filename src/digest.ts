@@ -0,0 +1,418 @@
+/**
+ * Scheduled digest module
+ * Posts an LLM summary of a group's recent messages on a daily or weekly schedule
+ *
+ * Schedules live in the digest_schedules table (one per group, set with
+ * /digest) with the next run precomputed in UTC from the group's local time
+ * and IANA time zone. Each due digest is claimed by advancing next_run_at
+ * with a conditional update, so overlapping runs (polling interval, HTTP
+ * trigger via api/digest.ts) send it only once. Digests are posted in the
+ * group or sent privately to the group's digest_subscribers. last_sent_at
+ * only moves once a digest reached someone, so a skipped or failed run's
+ * messages are included in the next digest (up to one period).
+ */
+
+import { Api } from 'grammy';
+import { DigestDelivery, DigestFrequency, DigestSchedule } from './types.js';
+import {
+  claimDigestRun,
+  fetchDueDigestSchedules,
+  fetchMessages,
+  getDigestSubscribers,
+  recordDigestSent,
+} from './supabase.js';
+import { generateAnswer, isLLMAvailable } from './llm.js';
+import { assemblePrompt, describePromptContext } from './prompt.js';
+import { renderCitations, sourcesKeyboard, splitHtmlMessage } from './citations.js';
+import { getAccessibleGroupIds } from './access.js';
+import { chatName } from './directory.js';
+import { escapeHtml } from './search.js';
+import { logger } from './logger.js';
+
+/** Delay between due-digest checks in long-lived processes */
+const DIGEST_CHECK_INTERVAL_MS = 60_000;
+
+/** Due schedules handled per run */
+const DUE_BATCH_SIZE = 10;
+
+/** Most recent messages considered for one digest */
+const DIGEST_MAX_MESSAGES = 500;
+
+/** Length of the summarized period per frequency */
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60_000,
+  weekly: 7 * 24 * 60 * 60_000,
+};
+
+/** Weekday abbreviations, indexed like Date.getUTCDay() (0 = Sunday) */
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * A parsed /digest command
+ */
+export type DigestCommand =
+  | { action: 'status' }
+  | { action: 'off' }
+  | { action: 'delivery'; delivery: DigestDelivery }
+  | { action: 'subscribe' }
+  | { action: 'unsubscribe' }
+  | {
+      action: 'schedule';
+      frequency: DigestFrequency;
+      hour: number;
+      minute: number;
+      weekday: number | null;
+      timeZone: string | null;
+    };
+
+/**
+ * Outcome of one scheduler run
+ */
+export interface DigestRunResult {
+  /** Schedules that were due */
+  due: number;
+  /** Digests delivered to at least one chat */
+  sent: number;
+  /** Digests with nothing to send (no messages, no recipients or no answer provider) */
+  skipped: number;
+}
+
+/**
+ * Parse the arguments of a /digest command
+ * Accepts: (none), off, group, dm, subscribe, unsubscribe,
+ * "daily HH:MM [TZ]" and "weekly <day> HH:MM [TZ]"
+ * @param text Message text
+ * @returns Parsed command, or null if the arguments are invalid
+ */
+export function parseDigestCommand(text: string): DigestCommand | null {
+  const args = text.replace(/^\/digest(?:@\w+)?/i, '').trim().split(/\s+/).filter(Boolean);
+  const [first, ...rest] = args.map((arg, i) => (i === 0 ? arg.toLowerCase() : arg));
+
+  if (!first) return { action: 'status' };
+  if (rest.length === 0) {
+    if (first === 'off') return { action: 'off' };
+    if (first === 'group' || first === 'dm') return { action: 'delivery', delivery: first };
+    if (first === 'subscribe') return { action: 'subscribe' };
+    if (first === 'unsubscribe') return { action: 'unsubscribe' };
+  }
+
+  if (first !== 'daily' && first !== 'weekly') return null;
+
+  let weekday: number | null = null;
+  if (first === 'weekly') {
+    weekday = WEEKDAYS.indexOf((rest.shift() || '').slice(0, 3).toLowerCase());
+    if (weekday < 0) return null;
+  }
+
+  const time = (rest.shift() || '').match(/^(\d{1,2}):(\d{2})$/);
+  if (!time || rest.length > 1) return null;
+  const hour = parseInt(time[1], 10);
+  const minute = parseInt(time[2], 10);
+  if (hour > 23 || minute > 59) return null;
+
+  return { action: 'schedule', frequency: first, hour, minute, weekday, timeZone: rest[0] ?? null };
+}
+
+/**
+ * Check whether a string is an IANA time zone known to the runtime
+ * @param timeZone Time zone name, e.g. "Europe/Berlin"
+ * @returns True if the time zone can be used
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the wall-clock date and time of an instant in a time zone
+ * @param date Instant
+ * @param timeZone IANA time zone
+ * @returns Local date parts (month is 1-based)
+ * @private
+ */
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find((part) => part.type === type)?.value || '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC instant
+ * Times skipped by a DST change resolve to the hour after the gap
+ * @private
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  let instant = wallClock;
+  // Two passes settle the offset on both sides of a DST change
+  for (let i = 0; i < 2; i++) {
+    const local = zonedParts(new Date(instant), timeZone);
+    const offset =
+      Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - instant;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Compute the next time a digest is due
+ * @param schedule Frequency, local time, weekday and time zone
+ * @param from Instant to start from (the result is strictly later)
+ * @returns Next run time
+ */
+export function computeNextRun(
+  schedule: Pick<DigestSchedule, 'frequency' | 'hour' | 'minute' | 'weekday' | 'time_zone'>,
+  from: Date
+): Date {
+  const today = zonedParts(from, schedule.time_zone);
+  for (let offset = 0; offset <= 8; offset++) {
+    // Date.UTC normalizes day overflow into the next month/year
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (schedule.frequency === 'weekly' && day.getUTCDay() !== schedule.weekday) {
+      continue;
+    }
+    const candidate = zonedTimeToUtc(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      schedule.hour,
+      schedule.minute,
+      schedule.time_zone
+    );
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+  }
+  // Unreachable for valid schedules; fall back to one period later
+  return new Date(from.getTime() + PERIOD_MS[schedule.frequency]);
+}
+
+/**
+ * Describe a schedule for status messages
+ * @param schedule Digest settings
+ * @returns Text such as "Weekly on Mon at 09:00 (Europe/Berlin), posted in the group"
+ */
+export function describeDigestSchedule(schedule: DigestSchedule): string {
+  const time = `${String(schedule.hour).padStart(2, '0')}:${String(schedule.minute).padStart(2, '0')}`;
+  const when =
+    schedule.frequency === 'weekly'
+      ? `Weekly on ${capitalize(WEEKDAYS[schedule.weekday ?? 0])} at ${time}`
+      : `Daily at ${time}`;
+  const where = schedule.delivery === 'dm' ? 'sent privately to subscribers' : 'posted in the group';
+  return `${when} (${schedule.time_zone}), ${where}`;
+}
+
+/**
+ * Uppercase the first letter of a word
+ * @private
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Summarize a group's messages since the start of the digest period
+ * @param schedule Digest settings
+ * @param since Start of the period
+ * @returns HTML digest and its sources button, or null if there is nothing to summarize
+ * @private
+ */
+async function buildDigest(
+  schedule: DigestSchedule,
+  since: Date
+): Promise<{ html: string; keyboard: ReturnType<typeof sourcesKeyboard> } | null> {
+  const messages = await fetchMessages({
+    groupId: schedule.group_id,
+    since: since.toISOString(),
+    limit: DIGEST_MAX_MESSAGES,
+  });
+  if (!messages.length) {
+    return null;
+  }
+
+  const period = schedule.frequency === 'weekly' ? 'week' : 'day';
+  const question =
+    `Write a digest of this group's conversations over the past ${period}: ` +
+    `the main topics, decisions, announcements and open questions, as short bullet points.`;
+  const assembled = assemblePrompt(messages, question);
+  const answer = await generateAnswer(assembled.prompt);
+  const { html, sources } = renderCitations(answer, assembled.messages);
+
+  const title = escapeHtml(chatName(messages[0]) ?? `Group ${schedule.group_id}`);
+  const heading = `🗞 <b>${capitalize(schedule.frequency)} digest</b> · ${title}`;
+  return {
+    html: `${heading}\n\n${html}\n\n<i>${describePromptContext(assembled)}</i>`,
+    keyboard: sourcesKeyboard(sources),
+  };
+}
+
+/**
+ * Resolve the chats a digest goes to
+ * DM subscribers who can no longer access the group are left out
+ * @param api Grammy API instance
+ * @param schedule Digest settings
+ * @returns Chat IDs
+ * @private
+ */
+async function digestRecipients(api: Api, schedule: DigestSchedule): Promise<number[]> {
+  if (schedule.delivery === 'group') {
+    return [schedule.group_id];
+  }
+  const recipients: number[] = [];
+  for (const userId of await getDigestSubscribers(schedule.group_id)) {
+    const groupIds = await getAccessibleGroupIds(api, userId);
+    if (groupIds === null || groupIds.includes(schedule.group_id)) {
+      recipients.push(userId);
+    }
+  }
+  return recipients;
+}
+
+/**
+ * Claim and send one due digest
+ * @param api Grammy API instance
+ * @param schedule Due digest settings
+ * @param now Current time
+ * @returns Whether the digest was sent, skipped, or claimed by another run
+ * @private
+ */
+async function runDigest(
+  api: Api,
+  schedule: DigestSchedule,
+  now: Date
+): Promise<'sent' | 'skipped' | 'claimed'> {
+  const next = computeNextRun(schedule, now);
+  if (!(await claimDigestRun(schedule.group_id, schedule.next_run_at, next))) {
+    return 'claimed';
+  }
+
+  if (!isLLMAvailable()) {
+    logger.warn(`[DIGEST] Skipping digest for group ${schedule.group_id}: answering is not configured`);
+    return 'skipped';
+  }
+
+  // Summarize since the last digest, but never more than one period
+  const periodStart = now.getTime() - PERIOD_MS[schedule.frequency];
+  const lastSent = schedule.last_sent_at ? new Date(schedule.last_sent_at).getTime() : 0;
+  const recipients = await digestRecipients(api, schedule);
+  if (!recipients.length) {
+    logger.debug(`[DIGEST] No recipients for group ${schedule.group_id}`);
+    return 'skipped';
+  }
+
+  const digest = await buildDigest(schedule, new Date(Math.max(periodStart, lastSent)));
+  if (!digest) {
+    logger.debug(`[DIGEST] No new messages in group ${schedule.group_id}`);
+    return 'skipped';
+  }
+
+  // Long digests go out as several messages, with the sources button on the last
+  const parts = splitHtmlMessage(digest.html);
+  let delivered = 0;
+  for (const chatId of recipients) {
+    try {
+      for (const [index, part] of parts.entries()) {
+        await api.sendMessage(chatId, part, {
+          parse_mode: 'HTML',
+          reply_markup: index === parts.length - 1 ? digest.keyboard : undefined,
+          link_preview_options: { is_disabled: true },
+        });
+      }
+      delivered++;
+    } catch (error) {
+      logger.warn(`[DIGEST] Could not send digest for group ${schedule.group_id} to ${chatId}:`, error);
+    }
+  }
+
+  logger.info(`[DIGEST] Digest for group ${schedule.group_id} sent to ${delivered}/${recipients.length} chat(s)`);
+  if (!delivered) {
+    return 'skipped';
+  }
+  // The next digest covers messages from here on; undelivered runs leave the window open
+  if (!(await recordDigestSent(schedule.group_id, now))) {
+    logger.warn(`[DIGEST] Delivery of the digest for group ${schedule.group_id} was not recorded`);
+  }
+  return 'sent';
+}
+
+/**
+ * Send every digest that is due
+ * Safe to run concurrently; each digest is claimed before it is sent
+ * @param api Grammy API instance used to deliver digests
+ * @returns Counts of due, sent and skipped digests
+ */
+export async function runDueDigests(api: Api): Promise<DigestRunResult> {
+  const now = new Date();
+  const result: DigestRunResult = { due: 0, sent: 0, skipped: 0 };
+
+  const schedules = await fetchDueDigestSchedules(now, DUE_BATCH_SIZE);
+  for (const schedule of schedules) {
+    result.due++;
+    try {
+      const outcome = await runDigest(api, schedule, now);
+      if (outcome === 'sent') result.sent++;
+      if (outcome === 'skipped') result.skipped++;
+    } catch (error) {
+      logger.error(`[DIGEST] Digest for group ${schedule.group_id} failed:`, error);
+      result.skipped++;
+    }
+  }
+
+  if (result.due) {
+    logger.debug('[DIGEST] Run finished:', result);
+  }
+  return result;
+}
+
+/**
+ * Check for due digests on an interval in a long-lived process
+ * Runs never overlap; a slow run delays the next one
+ * @param api Grammy API instance used to deliver digests
+ * @param intervalMs Delay between checks
+ * @returns Function that stops the scheduler
+ */
+export function startDigestScheduler(api: Api, intervalMs: number = DIGEST_CHECK_INTERVAL_MS): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueDigests(api);
+    } catch (error) {
+      logger.error('[DIGEST] Scheduler run failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  logger.info(`✅ Digest scheduler started (every ${intervalMs}ms)`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,138 @@
+/**
+ * Chat and user directory
+ * Keeps the chats and telegram_users reference tables current from incoming updates
+ *
+ * Rows are rewritten when a title or name changes, otherwise at most once per
+ * REFRESH_INTERVAL_MS per process, so last_seen_at is approximate. A row
+ * deleted by another process within that interval is missing until the cache
+ * expires; ingestion forgets and rewrites the rows when an insert fails.
+ * Callers must not record users who opted out.
+ */
+
+import type { Chat, User } from 'grammy/types';
+import { ChatRecord, ConversationRecord, TelegramUserRecord } from './types.js';
+import { upsertChat, upsertTelegramUser } from './supabase.js';
+
+/** Minimum delay between rewrites of an unchanged row */
+const REFRESH_INTERVAL_MS = 5 * 60_000;
+
+/** Last written fingerprint and time, keyed by table and ID */
+const recentlyWritten = new Map<string, { fingerprint: string; at: number }>();
+
+/**
+ * Check whether a row needs writing and remember it
+ * @param key Cache key (table and ID)
+ * @param fingerprint Serialized fields that matter for the row
+ * @returns True if the row changed or its refresh interval elapsed
+ * @private
+ */
+function shouldWrite(key: string, fingerprint: string): boolean {
+  const previous = recentlyWritten.get(key);
+  const now = Date.now();
+  if (previous && previous.fingerprint === fingerprint && now - previous.at < REFRESH_INTERVAL_MS) {
+    return false;
+  }
+  recentlyWritten.set(key, { fingerprint, at: now });
+  return true;
+}
+
+/**
+ * Map a Telegram chat to a chats row
+ * @param chat Chat from an update
+ * @returns Database record
+ */
+export function toChatRecord(chat: Chat): ChatRecord {
+  return {
+    id: chat.id,
+    type: chat.type,
+    title: 'title' in chat ? chat.title : null,
+    username: 'username' in chat ? chat.username ?? null : null,
+  };
+}
+
+/**
+ * Map a Telegram user to a telegram_users row
+ * @param user User from an update
+ * @returns Database record
+ */
+export function toTelegramUserRecord(user: User): TelegramUserRecord {
+  return {
+    id: user.id,
+    username: user.username ?? null,
+    first_name: user.first_name,
+    last_name: user.last_name ?? null,
+    is_bot: user.is_bot,
+  };
+}
+
+/**
+ * Record a chat seen in an update
+ * @param chat Chat from the update
+ */
+export async function rememberChat(chat: Chat): Promise<void> {
+  const record = toChatRecord(chat);
+  if (!shouldWrite(`chat:${record.id}`, JSON.stringify(record))) {
+    return;
+  }
+  if (!(await upsertChat(record))) {
+    recentlyWritten.delete(`chat:${record.id}`);
+  }
+}
+
+/**
+ * Record a user seen in an update
+ * @param user User from the update (must not be opted out)
+ */
+export async function rememberUser(user: User): Promise<void> {
+  const record = toTelegramUserRecord(user);
+  if (!shouldWrite(`user:${record.id}`, JSON.stringify(record))) {
+    return;
+  }
+  if (!(await upsertTelegramUser(record))) {
+    recentlyWritten.delete(`user:${record.id}`);
+  }
+}
+
+/**
+ * Drop a chat from the write cache, so the next rememberChat writes it
+ * @param chatId Telegram chat ID
+ */
+export function forgetChat(chatId: number): void {
+  recentlyWritten.delete(`chat:${chatId}`);
+}
+
+/**
+ * Drop a user from the write cache
+ * Called after the user's row is deleted, so it is written again if they return
+ * @param userId Telegram user ID
+ */
+export function forgetUser(userId: number): void {
+  recentlyWritten.delete(`user:${userId}`);
+}
+
+/**
+ * Display name of a stored message's author
+ * Prefers the joined telegram_users profile over the names stored on the row
+ * @param record Conversation record
+ * @returns Username, full name, or 'User'
+ */
+export function authorName(record: ConversationRecord): string {
+  return (
+    record.sender?.username ||
+    [record.sender?.first_name, record.sender?.last_name].filter(Boolean).join(' ') ||
+    record.user_name ||
+    record.user_first_name ||
+    'User'
+  );
+}
+
+/**
+ * Display name of the chat a stored message was posted in
+ * @param record Conversation record
+ * @returns Title, @username, or null if the chat is unknown
+ */
+export function chatName(record: ConversationRecord): string | null {
+  if (record.chat?.title) return record.chat.title;
+  if (record.chat?.username) return `@${record.chat.username}`;
+  return null;
+}
@@ -0,0 +1,148 @@
+/**
+ * Embedding queue worker
+ * Generates embeddings for queued conversations outside the ingestion path
+ *
+ * Ingestion stores each message immediately and queues an embedding job
+ * (embedding_jobs table). The worker claims due jobs in batches, embeds them
+ * with generateBatchEmbeddings and writes the vectors back. Failures are
+ * retried with exponential backoff; after MAX_ATTEMPTS a job is marked
+ * 'failed' and keeps its last error for inspection. Once a vector is
+ * written, semantic /watch subscriptions are matched against it.
+ *
+ * A message edited while its job runs re-queues the job: the vector of the
+ * old text is not stored and the re-queued job is not completed (the claim's
+ * updated_at acts as a lease token).
+ *
+ * Runs on an interval in long-lived processes (polling/webhook server) and
+ * via the HTTP-triggered api/embedding-worker.ts in serverless deployments.
+ */
+
+import {
+  claimEmbeddingJobs,
+  completeEmbeddingJob,
+  failEmbeddingJob,
+  updateMessageEmbedding,
+} from './supabase.js';
+import { areEmbeddingsAvailable, generateBatchEmbeddings } from './embeddings.js';
+import { notifySemanticWatchers } from './watches.js';
+import { logger } from './logger.js';
+
+/** Jobs claimed per batch */
+const DEFAULT_BATCH_SIZE = 20;
+
+/** Attempts before a job is marked failed */
+const MAX_ATTEMPTS = 5;
+
+/** Delay before the first retry; doubles with each attempt */
+const BASE_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Outcome of one worker run
+ */
+export interface EmbeddingQueueResult {
+  /** Jobs claimed */
+  processed: number;
+  /** Jobs whose vector was written */
+  succeeded: number;
+  /** Jobs that failed (scheduled for retry or given up) */
+  failed: number;
+}
+
+/**
+ * Compute when a failed job should be retried
+ * @param attempts Attempts made so far
+ * @returns Retry time, or null once MAX_ATTEMPTS is reached
+ * @private
+ */
+function nextRetryAt(attempts: number): Date | null {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+  return new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1));
+}
+
+/**
+ * Process one batch of due embedding jobs
+ * Jobs stay queued untouched while no embedding provider is available
+ * @param batchSize Maximum number of jobs to process
+ * @returns Counts of processed, succeeded and failed jobs
+ */
+export async function processEmbeddingJobs(
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<EmbeddingQueueResult> {
+  const result: EmbeddingQueueResult = { processed: 0, succeeded: 0, failed: 0 };
+
+  if (!areEmbeddingsAvailable()) {
+    return result;
+  }
+
+  const jobs = await claimEmbeddingJobs(batchSize);
+  if (!jobs.length) {
+    return result;
+  }
+  result.processed = jobs.length;
+
+  const embeddings = await generateBatchEmbeddings(jobs.map((job) => job.text));
+
+  for (let i = 0; i < jobs.length; i++) {
+    const job = jobs[i];
+    const { embedding, model, error } = embeddings[i];
+
+    const stored = embedding && model
+      ? await updateMessageEmbedding(job.conversation_id, embedding, model, job.text)
+      : null;
+
+    if (stored === false) {
+      // Edited while embedding (the edit re-queued the job, so completing it is
+      // a no-op) or its embedding expired under the retention policy
+      logger.debug(`[EMBED-QUEUE] Conversation ${job.conversation_id} changed or expired, vector discarded`);
+      await completeEmbeddingJob(job.id, job.claimed_at);
+      continue;
+    }
+    if (stored) {
+      // Alert only if the job was not re-queued in the meantime
+      if (await completeEmbeddingJob(job.id, job.claimed_at)) {
+        await notifySemanticWatchers(job.conversation_id);
+      }
+      result.succeeded++;
+      continue;
+    }
+
+    const reason = error || 'Failed to store embedding';
+    const retryAt = nextRetryAt(job.attempts);
+    await failEmbeddingJob(job.id, job.claimed_at, reason, retryAt);
+    result.failed++;
+    logger.warn(
+      `[EMBED-QUEUE] Job ${job.id} (conversation ${job.conversation_id}) attempt ${job.attempts} failed: ${reason}` +
+        (retryAt ? `; retrying at ${retryAt.toISOString()}` : '; giving up')
+    );
+  }
+
+  logger.debug('[EMBED-QUEUE] Batch processed:', result);
+  return result;
+}
+
+/**
+ * Run the worker on an interval in a long-lived process
+ * Runs never overlap; a slow batch delays the next one
+ * @param intervalMs Delay between batches
+ * @returns Function that stops the worker
+ */
+export function startEmbeddingWorker(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processEmbeddingJobs();
+    } catch (error) {
+      logger.error('[EMBED-QUEUE] Worker run failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  logger.info(`✅ Embedding worker started (every ${intervalMs}ms)`);
+  return () => clearInterval(timer);
+}
@@ -1,177 +1,241 @@
 /**
- * Send a prompt to OpenAI API and return the answer
- * @param prompt The prompt string
- * @returns The model's answer or error message
+ * Embeddings module for generating vector embeddings
+ * Providers implement a common interface and are registered by name
+ * Falls back gracefully if no provider can be initialized
+ *
+ * Built-in providers, in default priority order:
+ * 1. openai - text-embedding-3-small (1536-dimensional vectors)
+ * 2. gemini - gemini-embedding-001 (truncated to 1536 dimensions)
+ * 3. None (messages ingested without embeddings)
+ *
+ * Set EMBEDDING_PROVIDER to pick a provider explicitly. Vectors are only
+ * written when the provider's dimension matches conversations.vector.
  */
-export async function sendPromptToOpenAI(prompt: string): Promise<string> {
-  if (!openaiClient) {
-    logger.error('OpenAI client not initialized.');
-    return 'OpenAI client not initialized.';
-  }
-  try {
-    const response = await openaiClient.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: 'You are a helpful assistant that answers questions about Telegram group data.' },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: 512,
-      temperature: 0.7,
-    });
-    return response.choices[0]?.message?.content?.trim() || '';
-  } catch (error) {
-    logger.error('Error sending prompt to OpenAI:', error);
-    return 'Error communicating with OpenAI API.';
-  }
-}
-import { ConversationRecord } from './types.js';
+
+import type { EmbedContentRequest } from '@google/generative-ai';
+import { BotConfig, EmbeddingResult } from './types.js';
+import { getVectorDimensions } from './supabase.js';
+import { logger } from './logger.js';
+
 /**
- * Format Telegram messages into a prompt for OpenAI
- * @param messages Array of ConversationRecord
- * @param userQuestion The user's question
- * @returns Formatted prompt string
+ * Embedding backend
  */
-export function buildOpenAIPrompt(messages: ConversationRecord[], userQuestion: string): string {
-  const context = messages
-    .map(msg => {
-      const user = msg.user_name || msg.user_first_name || 'User';
-      // Prefer group/channel name if available, else fallback to group_id
-      let group = '';
-      if ((msg as any).group_title) {
-        group = `Group: ${(msg as any).group_title}`;
-      } else if ((msg as any).chat_title) {
-        group = `Group: ${(msg as any).chat_title}`;
-      } else if ((msg as any).group_name) {
-        group = `Group: ${(msg as any).group_name}`;
-      } else if (msg.group_id) {
-        group = `Group ID: ${msg.group_id}`;
-      }
-      return `[${msg.timestamp}] ${user}${group ? ' (' + group + ')' : ''}: ${msg.text}`;
-    })
-    .join('\n');
-  return (
-    `Context (recent messages with user and group info):\n${context}\n\n` +
-    `Question: ${userQuestion}\n` +
-    `Answer (reference the users and group names above in your response):`
-  );
+export interface EmbeddingProvider {
+  /** Provider identifier (e.g. 'openai') */
+  readonly name: string;
+  /** Model name recorded alongside each vector */
+  readonly model: string;
+  /** Length of the vectors this provider produces */
+  readonly dimensions: number;
+  /**
+   * Embed a single text
+   * @param text Text to embed
+   * @returns Vector embedding
+   * @throws Error if the backend request fails
+   */
+  embed(text: string): Promise<number[] | null>;
+  /**
+   * Embed several texts in one call where the backend supports it
+   * @param texts Texts to embed
+   * @returns One vector (or null) per input text, in order
+   * @throws Error if the backend request fails
+   */
+  embedBatch(texts: string[]): Promise<(number[] | null)[]>;
 }
+
 /**
- * Embeddings module for generating vector embeddings
- * Supports OpenAI and Google Gemini APIs
- * Falls back gracefully if neither API key is available
- *
- * Priority order:
- * 1. OpenAI (1536-dimensional vectors)
- * 2. Google Gemini (768-dimensional vectors)
- * 3. None (messages ingested without embeddings)
+ * Creates a provider from configuration, or returns null if it is not configured
  */
+export type EmbeddingProviderFactory = (config: BotConfig) => Promise<EmbeddingProvider | null>;
 
-import { EmbeddingResult } from './types.js';
-import { logger } from './logger.js';
+/** Gemini output size, matching the vector(1536) columns of the schema */
+const GEMINI_DIMENSIONS = 1536;
+
+const providerFactories = new Map<string, EmbeddingProviderFactory>();
 
-let openaiClient: any = null;
-let geminiClient: any = null;
+let provider: EmbeddingProvider | null = null;
 let embeddingsAvailable = false;
-let embeddingsProvider: 'openai' | 'gemini' | null = null;
 
 /**
- * Initialize embeddings with available providers
- * @param openaiKey Optional OpenAI API key
- * @param geminiKey Optional Google Gemini API key
+ * Register an embedding provider under a name
+ * Registration order is the default selection priority
+ * @param name Provider name used by EMBEDDING_PROVIDER
+ * @param factory Factory creating the provider from configuration
+ */
+export function registerEmbeddingProvider(
+  name: string,
+  factory: EmbeddingProviderFactory
+): void {
+  providerFactories.set(name, factory);
+}
+
+/**
+ * Get the names of all registered embedding providers
+ * @returns Provider names in priority order
+ */
+export function getRegisteredEmbeddingProviders(): string[] {
+  return [...providerFactories.keys()];
+}
+
+registerEmbeddingProvider('openai', async (config) => {
+  if (!config.openaiApiKey) {
+    return null;
+  }
+  const { OpenAI } = await import('openai');
+  const client = new OpenAI({ apiKey: config.openaiApiKey });
+  const model = 'text-embedding-3-small';
+
+  return {
+    name: 'openai',
+    model,
+    dimensions: 1536,
+    async embed(text) {
+      const response = await client.embeddings.create({ model, input: text });
+      return response.data[0]?.embedding || null;
+    },
+    async embedBatch(texts) {
+      const response = await client.embeddings.create({ model, input: texts });
+      return texts.map((_, index) => response.data[index]?.embedding || null);
+    },
+  };
+});
+
+registerEmbeddingProvider('gemini', async (config) => {
+  if (!config.geminiApiKey) {
+    return null;
+  }
+  const { GoogleGenerativeAI } = await import('@google/generative-ai');
+  const client = new GoogleGenerativeAI(config.geminiApiKey);
+  const modelName = 'gemini-embedding-001';
+  const model = client.getGenerativeModel({ model: modelName });
+
+  // The API accepts outputDimensionality but the SDK typings predate it;
+  // the request object is sent as the JSON body unchanged
+  const request = (text: string): EmbedContentRequest & { outputDimensionality: number } => ({
+    content: { role: 'user', parts: [{ text }] },
+    outputDimensionality: GEMINI_DIMENSIONS,
+  });
+
+  return {
+    name: 'gemini',
+    model: modelName,
+    dimensions: GEMINI_DIMENSIONS,
+    async embed(text) {
+      const result = await model.embedContent(request(text));
+      return result.embedding.values || null;
+    },
+    async embedBatch(texts) {
+      return Promise.all(
+        texts.map(async (text) => {
+          try {
+            const result = await model.embedContent(request(text));
+            return result.embedding.values || null;
+          } catch (error) {
+            logger.debug(`Error embedding text: ${error}`);
+            return null;
+          }
+        })
+      );
+    },
+  };
+});
+
+/**
+ * Initialize embeddings with the configured or first available provider
+ * @param config Bot configuration
  * @throws No error thrown; gracefully falls back to null provider
  */
-export async function initEmbeddings(
-  openaiKey?: string,
-  geminiKey?: string
-): Promise<void> {
-  try {
-    // Try OpenAI first (highest priority)
-    if (openaiKey) {
-      try {
-        const { OpenAI } = await import('openai');
-        openaiClient = new OpenAI({ apiKey: openaiKey });
-        embeddingsAvailable = true;
-        embeddingsProvider = 'openai';
-        logger.info('✅ OpenAI embeddings initialized');
-        return;
-      } catch (error) {
-        logger.warn('Failed to initialize OpenAI:', error instanceof Error ? error.message : String(error));
-      }
+export async function initEmbeddings(config: BotConfig): Promise<void> {
+  provider = null;
+  embeddingsAvailable = false;
+
+  const candidates = config.embeddingProvider
+    ? [config.embeddingProvider]
+    : getRegisteredEmbeddingProviders();
+
+  for (const name of candidates) {
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      logger.warn(`Unknown embedding provider: ${name}`);
+      continue;
     }
 
-    // Fall back to Gemini
-    if (geminiKey) {
-      try {
-        const { GoogleGenerativeAI } = await import('@google/generative-ai');
-        geminiClient = new GoogleGenerativeAI(geminiKey);
-        embeddingsAvailable = true;
-        embeddingsProvider = 'gemini';
-        logger.info('✅ Google Gemini embeddings initialized');
-        return;
-      } catch (error) {
-        logger.warn('Failed to initialize Gemini:', error instanceof Error ? error.message : String(error));
+    try {
+      const created = await factory(config);
+      if (!created) {
+        continue;
       }
+      provider = created;
+      embeddingsAvailable = true;
+      logger.info(
+        `✅ ${name} embeddings initialized (${created.model}, ${created.dimensions} dimensions)`
+      );
+      return;
+    } catch (error) {
+      logger.warn(`Failed to initialize ${name}:`, error instanceof Error ? error.message : String(error));
     }
-
-    // No provider available
-    logger.warn(
-      '⚠️  No embedding provider configured (OpenAI or Gemini API keys missing). Messages will be ingested without vector embeddings.'
-    );
-    embeddingsAvailable = false;
-    embeddingsProvider = null;
-  } catch (error) {
-    logger.error('Unexpected error during embeddings initialization:', error);
-    embeddingsAvailable = false;
-    embeddingsProvider = null;
   }
+
+  logger.warn(
+    '⚠️  No embedding provider configured (OpenAI or Gemini API keys missing). Messages will be ingested without vector embeddings.'
+  );
 }
 
 /**
- * Generate embedding for a text string using OpenAI
- * @param text Text to embed
- * @returns Vector embedding or null on error
- * @private
+ * Verify the provider's vector dimension matches the conversations.vector column
+ * Disables embeddings on mismatch so no vector is written with the wrong shape
+ * @returns True if vectors can be written, false otherwise
  */
-async function generateOpenAIEmbedding(text: string): Promise<number[] | null> {
-  if (!openaiClient) {
-    return null;
+export async function verifyEmbeddingSchema(): Promise<boolean> {
+  if (!provider) {
+    return false;
   }
 
-  try {
-    const response = await openaiClient.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-    });
+  const schemaDimensions = await getVectorDimensions();
+  if (schemaDimensions === null) {
+    logger.warn('⚠️  Could not read conversations.vector dimension; skipping schema check.');
+    return true;
+  }
 
-    return response.data[0]?.embedding || null;
-  } catch (error) {
-    logger.error('Error generating OpenAI embedding:', error);
-    return null;
+  if (schemaDimensions !== provider.dimensions) {
+    logger.error(
+      `❌ Embedding provider ${provider.name} (${provider.model}) produces ${provider.dimensions}-dimensional vectors ` +
+        `but conversations.vector is vector(${schemaDimensions}). Refusing to write vectors; embeddings disabled.`
+    );
+    embeddingsAvailable = false;
+    return false;
   }
+
+  logger.info(`✅ Embedding dimension matches schema (${schemaDimensions})`);
+  return true;
 }
 
 /**
- * Generate embedding for a text string using Google Gemini
- * @param text Text to embed
- * @returns Vector embedding or null on error
+ * Turn a provider vector into an embedding result
+ * Drops vectors whose length does not match the active provider
+ * @param text Text that was embedded
+ * @param vector Vector returned by the provider
+ * @returns Embedding result, with an error reason if the vector is unusable
  * @private
  */
-async function generateGeminiEmbedding(text: string): Promise<number[] | null> {
-  if (!geminiClient) {
-    return null;
+function toResult(text: string, vector: number[] | null): EmbeddingResult {
+  if (!provider || !vector) {
+    return { text, embedding: null, error: 'Provider returned no embedding' };
   }
-
-  try {
-    const model = geminiClient.getGenerativeModel({
-      model: 'embedding-001',
-    });
-
-    const result = await model.embedContent(text);
-    return result.embedding.values || null;
-  } catch (error) {
-    logger.error('Error generating Gemini embedding:', error);
-    return null;
+  if (vector.length !== provider.dimensions) {
+    const error = `Got ${vector.length}-dimensional vector from ${provider.name}; expected ${provider.dimensions}`;
+    logger.error(`Discarding vector: ${error}`);
+    return { text, embedding: null, error };
   }
+  return { text, embedding: vector, model: provider.model };
+}
+
+/**
+ * Describe a provider error for job bookkeeping
+ * @private
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 /**
@@ -183,23 +247,16 @@ async function generateGeminiEmbedding(text: string): Promise<number[] | null> {
 export async function generateEmbedding(
   text: string
 ): Promise<EmbeddingResult> {
-  if (!embeddingsAvailable) {
+  if (!embeddingsAvailable || !provider) {
     return { text, embedding: null };
   }
 
-  let embedding: number[] | null = null;
-
   try {
-    if (embeddingsProvider === 'openai') {
-      embedding = await generateOpenAIEmbedding(text);
-    } else if (embeddingsProvider === 'gemini') {
-      embedding = await generateGeminiEmbedding(text);
-    }
+    return toResult(text, await provider.embed(text));
   } catch (error) {
-    logger.error('Unexpected error during embedding generation:', error);
+    logger.error(`Error generating ${provider.name} embedding:`, error);
+    return { text, embedding: null, error: errorMessage(error) };
   }
-
-  return { text, embedding };
 }
 
 /**
@@ -215,76 +272,15 @@ export function areEmbeddingsAvailable(): boolean {
  * @returns Provider name ('OPENAI', 'GEMINI', or 'None')
  */
 export function getEmbeddingsProvider(): string {
-  return embeddingsProvider ? `${embeddingsProvider.toUpperCase()}` : 'None';
-}
-
-/**
- * Batch generate embeddings for multiple texts using OpenAI
- * @param texts Array of texts to embed
- * @returns Array of embedding results
- * @private
- */
-async function generateBatchOpenAIEmbeddings(
-  texts: string[]
-): Promise<EmbeddingResult[]> {
-  if (!openaiClient) {
-    return texts.map((text) => ({ text, embedding: null }));
-  }
-
-  try {
-    const response = await openaiClient.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: texts,
-    });
-
-    return texts.map((text, index) => ({
-      text,
-      embedding: response.data[index]?.embedding || null,
-    }));
-  } catch (error) {
-    logger.error('Error generating batch OpenAI embeddings:', error);
-    return texts.map((text) => ({ text, embedding: null }));
-  }
+  return provider ? `${provider.name.toUpperCase()}` : 'None';
 }
 
 /**
- * Batch generate embeddings for multiple texts using Gemini
- * @param texts Array of texts to embed
- * @returns Array of embedding results
- * @private
+ * Get the model name recorded with newly written vectors
+ * @returns Model name, or null if no provider is initialized
  */
-async function generateBatchGeminiEmbeddings(
-  texts: string[]
-): Promise<EmbeddingResult[]> {
-  if (!geminiClient) {
-    return texts.map((text) => ({ text, embedding: null }));
-  }
-
-  try {
-    const model = geminiClient.getGenerativeModel({
-      model: 'embedding-001',
-    });
-
-    const results = await Promise.all(
-      texts.map(async (text) => {
-        try {
-          const result = await model.embedContent(text);
-          return result.embedding.values || null;
-        } catch (error) {
-          logger.debug(`Error embedding text: ${error}`);
-          return null;
-        }
-      })
-    );
-
-    return texts.map((text, index) => ({
-      text,
-      embedding: results[index],
-    }));
-  } catch (error) {
-    logger.error('Error generating batch Gemini embeddings:', error);
-    return texts.map((text) => ({ text, embedding: null }));
-  }
+export function getEmbeddingModel(): string | null {
+  return provider ? provider.model : null;
 }
 
 /**
@@ -296,20 +292,15 @@ async function generateBatchGeminiEmbeddings(
 export async function generateBatchEmbeddings(
   texts: string[]
 ): Promise<EmbeddingResult[]> {
-  if (!embeddingsAvailable) {
+  if (!embeddingsAvailable || !provider) {
     return texts.map((text) => ({ text, embedding: null }));
   }
 
   try {
-    if (embeddingsProvider === 'openai') {
-      return generateBatchOpenAIEmbeddings(texts);
-    } else if (embeddingsProvider === 'gemini') {
-      return generateBatchGeminiEmbeddings(texts);
-    }
+    const vectors = await provider.embedBatch(texts);
+    return texts.map((text, index) => toResult(text, vectors[index] ?? null));
   } catch (error) {
-    logger.error('Unexpected error during batch embedding generation:', error);
+    logger.error(`Error generating batch ${provider.name} embeddings:`, error);
+    return texts.map((text) => ({ text, embedding: null, error: errorMessage(error) }));
   }
-
-  return texts.map((text) => ({ text, embedding: null }));
 }
-
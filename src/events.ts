@@ -0,0 +1,340 @@
+/**
+ * Event extraction module
+ * Turns messages announcing events into rows in the events table and
+ * formats them for /events and iCalendar (.ics) export
+ *
+ * Extraction runs during ingestion with the configured answer provider
+ * (EVENT_EXTRACTION, on by default). A cheap keyword check decides which
+ * messages are sent to the model; the model returns JSON that is validated
+ * here, and events without a usable start date are dropped. Edited messages
+ * are extracted again and replace their previous events.
+ */
+
+import { InlineKeyboard } from 'grammy';
+import { BotConfig, EventRecord } from './types.js';
+import { replaceMessageEvents } from './supabase.js';
+import { generateCompletion, isLLMAvailable } from './llm.js';
+import { escapeHtml, messageLink } from './search.js';
+import { logger } from './logger.js';
+
+/** Callback data of the .ics export button */
+export const EVENTS_ICS_CALLBACK = 'events_ics';
+
+/** Events listed per /events reply */
+export const EVENTS_LIST_LIMIT = 10;
+
+/** Upcoming events included in an .ics export */
+export const EVENTS_EXPORT_LIMIT = 100;
+
+/** Events kept per message; longer lists are usually schedules pasted whole */
+const MAX_EVENTS_PER_MESSAGE = 5;
+
+/** Shortest message worth sending to the model */
+const MIN_CANDIDATE_LENGTH = 30;
+
+/** Words that suggest a message announces something to attend */
+const EVENT_HINT =
+  /\b(event|meetup|meet-up|conference|summit|hackathon|workshop|webinar|ama|twitter spaces?|x spaces?|livestream|stream|panel|talk|keynote|party|side event|happy hour|demo day|launch|mint|airdrop|irl|rsvp|register|registration|tickets?|join us)\b|lu\.ma\/|eventbrite\.|meetup\.com\//i;
+
+/** Dates and times: month or weekday names, relative days, numeric dates and clock times */
+const DATE_HINT =
+  /\b(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|jun(e)?|jul(y)?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?|mon(day)?|tue(s(day)?)?|wed(nesday)?|thu(rs(day)?)?|fri(day)?|sat(urday)?|sun(day)?|today|tonight|tomorrow|next week)\b|\b\d{1,2}[/.-]\d{1,2}([/.-]\d{2,4})?\b|\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}(:\d{2})?\s?(am|pm)\b|\b\d{1,2}:\d{2}\b/i;
+
+/** Instructions for the extraction model */
+const EXTRACTION_INSTRUCTIONS =
+  'You extract events (meetups, conferences, hackathons, AMAs, calls, launches and similar) ' +
+  'announced in Telegram messages about crypto. Reply with a JSON array only, no prose. ' +
+  'Each element: {"name": string, "start": ISO 8601 date or date-time, "end": ISO 8601 or null, ' +
+  '"all_day": boolean, "location": string or null, "url": string or null, "organisers": string[]}. ' +
+  'Resolve relative dates ("tomorrow", "next Friday") against the posting time. Include a UTC offset ' +
+  'when the message states a time zone, otherwise give the time in UTC. Set all_day when no time is ' +
+  'given. Only include events the message announces or invites to, with a known date. ' +
+  'Reply with [] if there are none.';
+
+let extractionEnabled = true;
+
+/**
+ * Configure event extraction
+ * @param config Bot configuration
+ */
+export function initEventExtraction(config: BotConfig): void {
+  extractionEnabled = config.eventExtraction;
+}
+
+/**
+ * Cheap check for messages that may announce an event
+ * @param text Message text
+ * @returns True if the message mentions both an event and a date or time
+ */
+export function mayAnnounceEvent(text: string): boolean {
+  return text.length >= MIN_CANDIDATE_LENGTH && EVENT_HINT.test(text) && DATE_HINT.test(text);
+}
+
+/**
+ * Read an optional string field from model output
+ * @private
+ */
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Parse a date from model output
+ * Date-only values are read as midnight UTC
+ * @private
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? `${value.trim()}T00:00:00Z` : value.trim();
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate the model's JSON output and map it to events rows
+ * @param output Model output
+ * @param conversationId conversations.id of the announcing message
+ * @param groupId Group/channel ID
+ * @returns Valid events; malformed entries are dropped
+ * @private
+ */
+function parseExtractedEvents(output: string, conversationId: number, groupId: number): EventRecord[] {
+  // Models sometimes wrap JSON in a code fence
+  const json = output.replace(/^```(?:json)?\s*|\s*```$/g, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    logger.warn(`[EVENTS] Could not parse extraction output for conversation ${conversationId}`);
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const events: EventRecord[] = [];
+  for (const item of parsed.slice(0, MAX_EVENTS_PER_MESSAGE)) {
+    if (!item || typeof item !== 'object') continue;
+    const name = optionalString(item.name);
+    const start = parseDate(item.start);
+    if (!name || !start) continue;
+    const end = parseDate(item.end);
+    const url = optionalString(item.url);
+    events.push({
+      conversation_id: conversationId,
+      group_id: groupId,
+      name,
+      starts_at: start.toISOString(),
+      ends_at: end && end.getTime() >= start.getTime() ? end.toISOString() : null,
+      all_day: item.all_day === true,
+      location: optionalString(item.location),
+      url: url && /^https?:\/\//i.test(url) ? url : null,
+      organisers: Array.isArray(item.organisers)
+        ? item.organisers.map(optionalString).filter((o: string | null): o is string => !!o)
+        : [],
+    });
+  }
+  return events;
+}
+
+/**
+ * Extract and store the events a message announces
+ * Failures are logged; they never fail ingestion
+ * @param conversationId conversations.id of the stored message
+ * @param groupId Group/channel ID
+ * @param text Stored message text
+ * @param postedAt When the message was posted (for relative dates)
+ * @param edited True for edits, whose previous events are cleared even if the new text has none
+ */
+export async function recordMessageEvents(
+  conversationId: number,
+  groupId: number,
+  text: string,
+  postedAt: Date,
+  edited: boolean = false
+): Promise<void> {
+  if (!extractionEnabled || !isLLMAvailable()) {
+    return;
+  }
+
+  try {
+    if (!mayAnnounceEvent(text)) {
+      if (edited) await replaceMessageEvents(conversationId, []);
+      return;
+    }
+
+    const output = await generateCompletion(
+      EXTRACTION_INSTRUCTIONS,
+      `Posted at: ${postedAt.toISOString()}\nMessage:\n${text}`
+    );
+    if (output === null) {
+      return;
+    }
+
+    const events = parseExtractedEvents(output, conversationId, groupId);
+    if (!events.length && !edited) {
+      return;
+    }
+    if (await replaceMessageEvents(conversationId, events)) {
+      logger.debug(`[EVENTS] Conversation ${conversationId}: ${events.length} event(s)`);
+    }
+  } catch (error) {
+    logger.warn(`[EVENTS] Extraction failed for conversation ${conversationId}:`, error);
+  }
+}
+
+/**
+ * Extract the mode of an /events command
+ * @param text Message text
+ * @returns 'upcoming' (default), 'past' or 'ics', or null for unknown arguments
+ */
+export function parseEventsCommand(text: string): 'upcoming' | 'past' | 'ics' | null {
+  const arg = text.replace(/^\/events(?:@\w+)?/i, '').trim().toLowerCase();
+  if (!arg || arg === 'upcoming') return 'upcoming';
+  if (arg === 'past' || arg === 'ics') return arg;
+  return null;
+}
+
+/**
+ * Drop events announced more than once (same name and start)
+ * @param events Events in display order
+ * @returns Events with the first announcement of each kept
+ */
+export function dedupeEvents(events: EventRecord[]): EventRecord[] {
+  const seen = new Set<string>();
+  return events.filter((event) => {
+    const key = `${event.name.toLowerCase()}|${event.starts_at}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Format an event's date for lists
+ * @private
+ */
+function formatEventDate(event: EventRecord): string {
+  const start = event.starts_at.replace('T', ' ');
+  if (event.all_day) return start.slice(0, 10);
+  return `${start.slice(0, 16)} UTC`;
+}
+
+/**
+ * Format events as an HTML list
+ * @param events Events in display order
+ * @param kind Upcoming or past (for the heading)
+ * @returns Message text (parse_mode HTML)
+ */
+export function formatEvents(events: EventRecord[], kind: 'upcoming' | 'past'): string {
+  const header = kind === 'upcoming' ? '📅 <b>Upcoming events</b>' : '📅 <b>Past events</b>';
+  if (!events.length) {
+    return `${header}\n\nNo ${kind} events found.`;
+  }
+
+  const lines = events.map((event, i) => {
+    const details = [formatEventDate(event)];
+    if (event.location) details.push(escapeHtml(event.location));
+    if (event.organisers.length) details.push(`by ${escapeHtml(event.organisers.join(', '))}`);
+    const links: string[] = [];
+    if (event.url) links.push(`<a href="${escapeHtml(event.url)}">info</a>`);
+    const source = event.source ? messageLink(event.source) : null;
+    if (source) links.push(`<a href="${source}">announcement</a>`);
+    return (
+      `<b>${i + 1}. ${escapeHtml(event.name)}</b>\n${details.join(' · ')}` +
+      (links.length ? `\n${links.join(' · ')}` : '')
+    );
+  });
+  return `${header}\n\n${lines.join('\n\n')}`;
+}
+
+/**
+ * Build the export button shown under upcoming events
+ * @returns Keyboard with the .ics export button
+ */
+export function eventsKeyboard(): InlineKeyboard {
+  return new InlineKeyboard().text('📥 Export .ics', EVENTS_ICS_CALLBACK);
+}
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 3.3.11)
+ * @private
+ */
+function icsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Format a time as an iCalendar UTC date-time or date
+ * @private
+ */
+function icsDate(iso: string, dateOnly: boolean): string {
+  const compact = iso.replace(/[-:]/g, '').replace(/\.\d+/, '');
+  return dateOnly ? compact.slice(0, 8) : compact.slice(0, 15) + 'Z';
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 3.1)
+ * @private
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length ? 74 : 75;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build an iCalendar file from events
+ * @param events Events to export
+ * @param calendarName Calendar name shown by calendar apps
+ * @returns .ics file contents
+ */
+export function toICalendar(events: EventRecord[], calendarName: string): string {
+  const stamp = icsDate(new Date().toISOString(), false);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Telegram Ingestion Bot//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    const source = event.source ? messageLink(event.source) : null;
+    const description = [
+      event.organisers.length ? `Organisers: ${event.organisers.join(', ')}` : null,
+      source ? `Announcement: ${source}` : null,
+    ].filter(Boolean).join('\n');
+
+    lines.push('BEGIN:VEVENT', `UID:event-${event.id}@telegram-ingestion-bot`, `DTSTAMP:${stamp}`);
+    if (event.all_day) {
+      lines.push(`DTSTART;VALUE=DATE:${icsDate(event.starts_at, true)}`);
+      // All-day end dates are exclusive
+      const end = new Date(event.ends_at ?? event.starts_at);
+      end.setUTCDate(end.getUTCDate() + 1);
+      lines.push(`DTEND;VALUE=DATE:${icsDate(end.toISOString(), true)}`);
+    } else {
+      lines.push(`DTSTART:${icsDate(event.starts_at, false)}`);
+      if (event.ends_at) lines.push(`DTEND:${icsDate(event.ends_at, false)}`);
+    }
+    lines.push(`SUMMARY:${icsText(event.name)}`);
+    if (event.location) lines.push(`LOCATION:${icsText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (description) lines.push(`DESCRIPTION:${icsText(description)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
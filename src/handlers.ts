@@ -1,7 +1,101 @@
-import { fetchMessages } from "./supabase.js";
-import { buildOpenAIPrompt, sendPromptToOpenAI } from "./embeddings.js";
+import { retrieveContextMessages } from "./retrieval.js";
+import { getAccessibleGroupIds, isAdminUser, trackMembership } from "./access.js";
+import {
+  addDigestSubscriber,
+  clearUserMessages,
+  countUserMessages,
+  deleteRetentionPolicy,
+  deleteWatches,
+  fetchEvents,
+  fetchMessagesByIds,
+  getDigestSchedule,
+  getRedactionCounts,
+  getRetentionPolicy,
+  getUserMessageGroups,
+  getUserWatches,
+  insertWatch,
+  isUserOptedOut,
+  removeUserOptOut,
+  removeDigestSubscriber,
+  upsertDigestSchedule,
+  upsertRetentionPolicy,
+} from "./supabase.js";
+import { rememberChat, rememberUser } from "./directory.js";
+import { generateAnswer, getLLMProvider, isLLMAvailable } from "./llm.js";
+import { AssembledPrompt, assemblePrompt, describePromptContext } from "./prompt.js";
+import {
+  formatSearchResults,
+  parseSearchQuery,
+  searchConversations,
+  searchKeyboard,
+  SEARCH_PAGE_CALLBACK,
+} from "./search.js";
+import {
+  formatSources,
+  parseSourcesCallback,
+  renderCitations,
+  sourcesKeyboard,
+  SOURCES_CALLBACK,
+  splitHtmlMessage,
+} from "./citations.js";
+import { getActiveSession, recordSessionTurn, resetSession, retrievalQuery } from "./sessions.js";
+import {
+  CLEAR_RANGE_CALLBACK,
+  CLEAR_SCOPE_CALLBACK,
+  clearGroupsKeyboard,
+  clearRangeKeyboard,
+  CONFIRM_CLEAR_CALLBACK,
+  describeClearScope,
+  encodeClearScope,
+  exportUserData,
+  optOutAndErase,
+  parseClearGroup,
+  parseClearScope,
+  resolveClearRange,
+} from "./privacy.js";
+import {
+  formatRedactionCounts,
+  getRedactionMode,
+  isHashModeAvailable,
+  isRedactionEnabled,
+  parseRedactionCommand,
+  REDACTION_MODE_DESCRIPTIONS,
+  setGroupRedactionMode,
+} from "./redaction.js";
+import {
+  describeRetention,
+  getEffectiveRetention,
+  GLOBAL_RETENTION_ID,
+  parseRetentionCommand,
+} from "./retention.js";
+import {
+  dedupeEvents,
+  eventsKeyboard,
+  EVENTS_EXPORT_LIMIT,
+  EVENTS_ICS_CALLBACK,
+  EVENTS_LIST_LIMIT,
+  formatEvents,
+  parseEventsCommand,
+  toICalendar,
+} from "./events.js";
+import {
+  buildWatch,
+  formatWatches,
+  isValidWatchPattern,
+  MAX_WATCHES_PER_USER,
+  parseWatchCommand,
+  UNWATCH_CALLBACK,
+  watchesKeyboard,
+} from "./watches.js";
+import {
+  computeNextRun,
+  describeDigestSchedule,
+  isValidTimeZone,
+  parseDigestCommand,
+} from "./digest.js";
 /**
- * Handle /ask command in private chat to answer questions about all groups/channels/chats
+ * Handle /ask command in private chat to answer questions about the asker's groups/channels/chats
+ * Admins may ask about every group; other users only about groups they belong to
  * Usage: /ask <question>
  */
 export async function handleAskCommand(ctx: Context): Promise<void> {
@@ -26,31 +120,151 @@ export async function handleAskCommand(ctx: Context): Promise<void> {
       await ctx.reply("Usage: /ask <your question>");
       return;
     }
-    const userQuestion = match[1].trim();
 
-    // Fetch recent messages from all groups/channels/chats
-    const messages = await fetchMessages({ limit: 50 }); // No groupId filter
-    if (!messages.length) {
-      logger.debug(`[ASK] No messages found`);
-      await ctx.reply("No messages found.");
+    await answerPrivateQuestion(ctx, match[1].trim());
+  } catch (error) {
+    logger.error("Error in handleAskCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+/**
+ * Handle a plain private-chat message as a follow-up question
+ * Only applies while the user has an active /ask session; otherwise ignored
+ */
+export async function handlePrivateFollowUp(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.from?.id;
+    const question = ctx.message?.text?.trim();
+    if (!userId || !question || ctx.chat?.type !== "private" || question.startsWith("/")) {
+      return;
+    }
+    if (!(await getActiveSession(userId))) {
       return;
     }
+    logger.debug(`[ASK] Follow-up from user ${userId}: '${question}'`);
+    await answerPrivateQuestion(ctx, question);
+  } catch (error) {
+    logger.error("Error in handlePrivateFollowUp:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
 
-    // Build prompt and query OpenAI
-    const prompt = buildOpenAIPrompt(messages, userQuestion);
-    logger.debug(`[ASK] Built prompt: ${prompt}`);
-    const answer = await sendPromptToOpenAI(prompt);
-    logger.debug(`[ASK] OpenAI answer: ${answer}`);
+/**
+ * Handle /reset command: forget the private-chat conversation
+ */
+export async function handleResetCommand(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.from?.id;
+    if (!userId || ctx.chat?.type !== "private") {
+      await ctx.reply("❌ Please use this command in a private chat with the bot.");
+      return;
+    }
+    const cleared = await resetSession(userId);
+    await ctx.reply(
+      cleared
+        ? "🧹 Conversation cleared. Your next /ask starts fresh."
+        : "❌ Could not clear the conversation. Please try again."
+    );
+  } catch (error) {
+    logger.error("Error in handleResetCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
 
-    await ctx.reply(answer);
+/**
+ * Handle /mydata in private chat: send everything stored about the user as JSON and CSV files
+ * The request is logged in data_requests
+ */
+export async function handleMyDataCommand(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.from?.id;
+    if (!userId || ctx.chat?.type !== "private") {
+      await ctx.reply("❌ Please use this command in a private chat with the bot.");
+      return;
+    }
+
+    await ctx.reply("⏳ Collecting your data...");
+    const archive = await exportUserData(userId);
+    if (!archive) {
+      await ctx.reply("❌ Could not export your data. Please try again later.");
+      return;
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    await ctx.replyWithMediaGroup([
+      InputMediaBuilder.document(
+        new InputFile(Buffer.from(archive.json, "utf-8"), `mydata-${userId}-${date}.json`)
+      ),
+      InputMediaBuilder.document(
+        new InputFile(Buffer.from(archive.csv, "utf-8"), `mydata-${userId}-${date}-messages.csv`),
+        {
+          caption:
+            `📦 Your data: ${archive.counts.conversations ?? 0} message(s) and everything else stored about you. ` +
+            `The JSON file is complete; the CSV lists your messages.`,
+        }
+      ),
+    ]);
   } catch (error) {
-    logger.error("Error in handleAskCommand:", error);
+    logger.error("Error in handleMyDataCommand:", error);
     await ctx.reply("❌ An error occurred. Please try again.");
   }
 }
 
+/**
+ * Answer a private-chat question, continuing the user's session
+ * @param ctx Grammy context
+ * @param userQuestion The question (without /ask)
+ * @private
+ */
+async function answerPrivateQuestion(ctx: Context, userQuestion: string): Promise<void> {
+  if (!isLLMAvailable()) {
+    await ctx.reply("⚠️ Answering is not configured for this bot.");
+    return;
+  }
+
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.reply("❌ Could not determine your user ID.");
+    return;
+  }
+
+  // Restrict context to groups the asker belongs to (null = admin, all groups)
+  const groupIds = await getAccessibleGroupIds(ctx.api, userId);
+  if (groupIds && !groupIds.length) {
+    logger.debug(`[ASK] User ${userId} has no accessible groups`);
+    await ctx.reply(
+      "I can only answer from groups you are a member of, and I haven't seen you in any yet. Send a message in a group I monitor and try again."
+    );
+    return;
+  }
+
+  // Previous turns let follow-ups like "and who else was there?" make sense
+  const history = (await getActiveSession(userId)) ?? [];
+
+  // Retrieve the most relevant messages from the accessible groups/channels/chats
+  const messages = await retrieveContextMessages(retrievalQuery(history, userQuestion), {
+    groupIds: groupIds ?? undefined,
+  });
+  if (!messages.length) {
+    logger.debug(`[ASK] No messages found`);
+    await ctx.reply("No messages found.");
+    return;
+  }
+
+  // Build prompt and query the answer provider
+  const assembled = assemblePrompt(messages, userQuestion, history);
+  logger.debug(`[ASK] Built prompt: ${assembled.prompt}`);
+  const answer = await generateAnswer(assembled.prompt);
+  logger.debug(`[ASK] LLM answer: ${answer}`);
+
+  await replyWithAnswer(ctx, answer, assembled);
+  await recordSessionTurn(userId, history, userQuestion, answer);
+}
+
 /**
  * Handle @mention ask in group/channel: considers only messages from that chat
+ * Works for group messages and channel posts (replies are posted to the channel)
  * Usage: @BotUsername <question>
  */
 export async function handleMentionAsk(ctx: Context): Promise<void> {
@@ -59,10 +273,11 @@ export async function handleMentionAsk(ctx: Context): Promise<void> {
     if (!ctx.chat || !['group', 'supergroup', 'channel'].includes(ctx.chat.type)) {
       return;
     }
-    const text = ctx.message?.text || "";
+    // ctx.msg covers both group messages and channel posts
+    const text = ctx.msg?.text || "";
     const botUsername = ctx.me?.username ? `@${ctx.me.username}` : "";
     // Find @mention entity for the bot
-    const mentionEntity = ctx.message?.entities?.find(
+    const mentionEntity = ctx.msg?.entities?.find(
       (e) => e.type === "mention" && text.substring(e.offset, e.offset + e.length).toLowerCase() === botUsername.toLowerCase()
     );
     if (!mentionEntity) return;
@@ -72,28 +287,681 @@ export async function handleMentionAsk(ctx: Context): Promise<void> {
       await ctx.reply("Please ask a question after mentioning me.");
       return;
     }
-    // Fetch recent messages from this group/channel only
-    const messages = await fetchMessages({ groupId: ctx.chat.id, limit: 50 });
+    // "@Bot search <query>" lists matching messages instead of answering
+    if (/^search\b/i.test(question)) {
+      await handleSearchCommand(ctx);
+      return;
+    }
+    if (!isLLMAvailable()) {
+      await ctx.reply("⚠️ Answering is not configured for this bot.");
+      return;
+    }
+    // Retrieve the most relevant messages from this group/channel only
+    const messages = await retrieveContextMessages(question, { groupIds: [ctx.chat.id] });
     if (!messages.length) {
       await ctx.reply("No messages found for this group/channel.");
       return;
     }
-    // Build prompt and query OpenAI
-    const prompt = buildOpenAIPrompt(messages, question);
-    const answer = await sendPromptToOpenAI(prompt);
-    await ctx.reply(answer);
+    // Build prompt and query the answer provider
+    const assembled = assemblePrompt(messages, question);
+    const answer = await generateAnswer(assembled.prompt);
+    await replyWithAnswer(ctx, answer, assembled);
   } catch (error) {
     logger.error("Error in handleMentionAsk:", error);
     await ctx.reply("❌ An error occurred. Please try again.");
   }
 }
 
+/**
+ * Resolve which groups search results and cited sources may come from
+ * In groups and channels only that chat; in private chats the groups the user belongs to
+ * @param ctx Grammy context
+ * @returns Group IDs, null for all groups (admins), or undefined if the user is unknown
+ * @private
+ */
+async function resolveAccessScope(ctx: Context): Promise<number[] | null | undefined> {
+  const chat = ctx.chat ?? ctx.callbackQuery?.message?.chat;
+  if (chat && chat.type !== "private") {
+    return [chat.id];
+  }
+  const userId = ctx.from?.id;
+  if (!userId) {
+    return undefined;
+  }
+  return getAccessibleGroupIds(ctx.api, userId);
+}
+
+/**
+ * Send an answer with its citations linked, a context footer and a "Sources" button
+ * Long answers are sent as several messages; the button goes on the last one
+ * @param ctx Grammy context
+ * @param answer Model answer
+ * @param assembled Prompt the answer was generated from
+ * @private
+ */
+async function replyWithAnswer(
+  ctx: Context,
+  answer: string,
+  assembled: AssembledPrompt
+): Promise<void> {
+  const { html, sources } = renderCitations(answer, assembled.messages);
+  logger.debug(`[ASK] Answer cites ${sources.length} of ${assembled.messages.length} message(s)`);
+  const footer = `\n\n<i>${describePromptContext(assembled)}</i>`;
+  const parts = splitHtmlMessage(html + footer);
+  for (const [index, part] of parts.entries()) {
+    await ctx.reply(part, {
+      parse_mode: "HTML",
+      reply_markup: index === parts.length - 1 ? sourcesKeyboard(sources) : undefined,
+      link_preview_options: { is_disabled: true },
+    });
+  }
+}
+
+/**
+ * Handle the "Sources" button of an answer by listing the cited messages
+ * Sources are re-fetched within the clicker's access scope
+ * @param ctx Grammy context
+ * @private
+ */
+async function handleSourcesCallback(ctx: Context): Promise<void> {
+  const refs = parseSourcesCallback(ctx.callbackQuery?.data || "");
+  const groupIds = await resolveAccessScope(ctx);
+  if (!refs.length || groupIds === undefined || (groupIds && !groupIds.length)) {
+    await ctx.answerCallbackQuery("❌ These sources are not available to you");
+    return;
+  }
+
+  const records = await fetchMessagesByIds(
+    refs.map((ref) => ref.id),
+    groupIds ?? undefined
+  );
+  const byId = new Map(records.map((record) => [Number(record.id), record]));
+  const sources = refs.flatMap((ref) => {
+    const record = byId.get(ref.id);
+    return record ? [{ number: ref.number, record }] : [];
+  });
+
+  await ctx.reply(formatSources(sources), {
+    parse_mode: "HTML",
+    link_preview_options: { is_disabled: true },
+    reply_parameters: ctx.callbackQuery?.message
+      ? { message_id: ctx.callbackQuery.message.message_id, allow_sending_without_reply: true }
+      : undefined,
+  });
+  await ctx.answerCallbackQuery();
+}
+
+/**
+ * Handle /search in any chat and "@Bot search ..." in groups/channels
+ * Results are sent as a reply so next/prev buttons can recover the query
+ * Usage: /search <query>
+ */
+export async function handleSearchCommand(ctx: Context): Promise<void> {
+  try {
+    const msg = ctx.msg;
+    const query = parseSearchQuery(msg?.text || "", ctx.me?.username);
+    if (!msg || !query) {
+      await ctx.reply("Usage: /search <keywords>");
+      return;
+    }
+
+    const groupIds = await resolveAccessScope(ctx);
+    if (groupIds === undefined) {
+      await ctx.reply("❌ Could not determine your user ID.");
+      return;
+    }
+    if (groupIds && !groupIds.length) {
+      await ctx.reply(
+        "I can only search groups you are a member of, and I haven't seen you in any yet. Send a message in a group I monitor and try again."
+      );
+      return;
+    }
+
+    const page = await searchConversations(query, { groupIds: groupIds ?? undefined });
+    await ctx.reply(formatSearchResults(query, page), {
+      parse_mode: "HTML",
+      reply_markup: searchKeyboard(page),
+      reply_parameters: { message_id: msg.message_id, allow_sending_without_reply: true },
+      link_preview_options: { is_disabled: true },
+    });
+  } catch (error) {
+    logger.error("Error in handleSearchCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+/**
+ * Handle next/prev buttons of a search results message
+ * @param ctx Grammy context
+ * @param pageNumber Zero-based page to show
+ * @private
+ */
+async function handleSearchPageCallback(ctx: Context, pageNumber: number): Promise<void> {
+  const request = ctx.callbackQuery?.message?.reply_to_message;
+  const query = parseSearchQuery(request?.text || "", ctx.me?.username);
+  if (!query || isNaN(pageNumber)) {
+    await ctx.answerCallbackQuery("⚠️ This search has expired, please search again");
+    return;
+  }
+
+  const groupIds = await resolveAccessScope(ctx);
+  if (groupIds === undefined || (groupIds && !groupIds.length)) {
+    await ctx.answerCallbackQuery("❌ You no longer have access to these results");
+    return;
+  }
+
+  const page = await searchConversations(query, { groupIds: groupIds ?? undefined, page: pageNumber });
+  await ctx.editMessageText(formatSearchResults(query, page), {
+    parse_mode: "HTML",
+    reply_markup: searchKeyboard(page),
+    link_preview_options: { is_disabled: true },
+  });
+  await ctx.answerCallbackQuery();
+}
+
+/**
+ * Handle /events in any chat: list upcoming or past events, or export upcoming events as .ics
+ * Groups see their own events; private chats the events of the user's groups (like /search)
+ * Usage: /events [upcoming|past|ics]
+ */
+export async function handleEventsCommand(ctx: Context): Promise<void> {
+  try {
+    const mode = parseEventsCommand(ctx.msg?.text || "");
+    if (!mode) {
+      await ctx.reply("Usage: /events [upcoming|past|ics]");
+      return;
+    }
+
+    const groupIds = await resolveAccessScope(ctx);
+    if (groupIds === undefined) {
+      await ctx.reply("❌ Could not determine your user ID.");
+      return;
+    }
+    if (groupIds && !groupIds.length) {
+      await ctx.reply(
+        "I can only show events from groups you are a member of, and I haven't seen you in any yet. Send a message in a group I monitor and try again."
+      );
+      return;
+    }
+
+    if (mode === "ics") {
+      await sendEventsCalendar(ctx, groupIds);
+      return;
+    }
+
+    const events = await fetchEvents({
+      upcoming: mode === "upcoming",
+      groupIds: groupIds ?? undefined,
+      // Fetch extra rows so duplicates can be dropped
+      limit: EVENTS_LIST_LIMIT * 2,
+    });
+    const shown = dedupeEvents(events).slice(0, EVENTS_LIST_LIMIT);
+    await ctx.reply(formatEvents(shown, mode), {
+      parse_mode: "HTML",
+      reply_markup: mode === "upcoming" && shown.length ? eventsKeyboard() : undefined,
+      link_preview_options: { is_disabled: true },
+    });
+  } catch (error) {
+    logger.error("Error in handleEventsCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+/**
+ * Send upcoming events as an iCalendar file
+ * @param ctx Grammy context
+ * @param groupIds Group scope, or null for all groups
+ * @private
+ */
+async function sendEventsCalendar(ctx: Context, groupIds: number[] | null): Promise<void> {
+  const events = dedupeEvents(
+    await fetchEvents({ upcoming: true, groupIds: groupIds ?? undefined, limit: EVENTS_EXPORT_LIMIT })
+  );
+  if (!events.length) {
+    await ctx.reply("📅 No upcoming events to export.");
+    return;
+  }
+  const chat = ctx.chat ?? ctx.callbackQuery?.message?.chat;
+  const name = chat && "title" in chat && chat.title ? `${chat.title} events` : "Telegram events";
+  const calendar = Buffer.from(toICalendar(events, name), "utf-8");
+  await ctx.replyWithDocument(new InputFile(calendar, "events.ics"), {
+    caption: `📅 ${events.length} upcoming event(s)`,
+  });
+}
+
+/**
+ * Handle the .ics export button under an upcoming events list
+ * @param ctx Grammy context
+ * @private
+ */
+async function handleEventsIcsCallback(ctx: Context): Promise<void> {
+  const groupIds = await resolveAccessScope(ctx);
+  if (groupIds === undefined || (groupIds && !groupIds.length)) {
+    await ctx.answerCallbackQuery("❌ These events are not available to you");
+    return;
+  }
+  await ctx.answerCallbackQuery();
+  await sendEventsCalendar(ctx, groupIds);
+}
+
+/** Usage of /watch */
+const WATCH_USAGE =
+  "Usage:\n" +
+  "/watch <phrase> - alert me when a message contains the phrase\n" +
+  "/watch /<pattern>/ - alert me when a message matches the regular expression\n" +
+  "/watch ~<phrase> - alert me when a message is about the phrase (semantic)\n\n" +
+  "Alerts cover new messages in groups you are a member of. Manage watches with /watches.";
+
+/**
+ * Handle /watch in private chat: subscribe to alerts for new messages in the user's groups
+ * Usage: /watch <phrase> | /watch /<pattern>/ | /watch ~<phrase>
+ */
+export async function handleWatchCommand(ctx: Context): Promise<void> {
+  try {
+    if (!ctx.chat || ctx.chat.type !== "private") {
+      await ctx.reply("⚠️ Use /watch in a private chat with me so I can send you alerts.");
+      return;
+    }
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply("❌ Could not determine your user ID.");
+      return;
+    }
+
+    const request = parseWatchCommand(ctx.msg?.text || "");
+    if (!request) {
+      await ctx.reply(WATCH_USAGE);
+      return;
+    }
+    if (request.matchType === "regex" && !isValidWatchPattern(request.phrase)) {
+      await ctx.reply("❌ That is not a valid regular expression. Backreferences and lookarounds are not supported.");
+      return;
+    }
+    if (request.matchType === "semantic" && !areEmbeddingsAvailable()) {
+      await ctx.reply("⚠️ Semantic watches need embeddings, which are not configured for this bot.");
+      return;
+    }
+    if ((await getUserWatches(userId)).length >= MAX_WATCHES_PER_USER) {
+      await ctx.reply(`⚠️ You can have up to ${MAX_WATCHES_PER_USER} watches. Remove one with /unwatch first.`);
+      return;
+    }
+
+    const watch = await buildWatch(userId, request);
+    if (!watch) {
+      await ctx.reply("❌ Could not process that phrase. Please try again.");
+      return;
+    }
+    const stored = await insertWatch(watch);
+    await ctx.reply(
+      stored
+        ? "✅ Watch added. I'll message you when new messages in your groups match."
+        : "⚠️ You are already watching that (or it could not be saved)."
+    );
+  } catch (error) {
+    logger.error("Error in handleWatchCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+/**
+ * Handle /watches in private chat: list the user's watches with remove buttons
+ */
+export async function handleWatchesCommand(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.from?.id;
+    if (!ctx.chat || ctx.chat.type !== "private" || !userId) {
+      await ctx.reply("⚠️ Use /watches in a private chat with me.");
+      return;
+    }
+    const watches = await getUserWatches(userId);
+    await ctx.reply(formatWatches(watches), {
+      parse_mode: "HTML",
+      reply_markup: watchesKeyboard(watches),
+    });
+  } catch (error) {
+    logger.error("Error in handleWatchesCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+/**
+ * Handle /unwatch in private chat: choose a watch to remove
+ */
+export async function handleUnwatchCommand(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.from?.id;
+    if (!ctx.chat || ctx.chat.type !== "private" || !userId) {
+      await ctx.reply("⚠️ Use /unwatch in a private chat with me.");
+      return;
+    }
+    const watches = await getUserWatches(userId);
+    if (!watches.length) {
+      await ctx.reply(formatWatches(watches), { parse_mode: "HTML" });
+      return;
+    }
+    await ctx.reply("Which watch should I remove?", { reply_markup: watchesKeyboard(watches) });
+  } catch (error) {
+    logger.error("Error in handleUnwatchCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+/**
+ * Handle a remove button under the watch list
+ * Only the clicking user's own watches are deleted
+ * @param ctx Grammy context
+ * @param target Watch ID, or "all"
+ * @private
+ */
+async function handleUnwatchCallback(ctx: Context, target: string): Promise<void> {
+  const userId = ctx.from?.id;
+  const watchId = target === "all" ? undefined : parseInt(target, 10);
+  if (!userId || (watchId !== undefined && isNaN(watchId))) {
+    await ctx.answerCallbackQuery("❌ Unknown watch");
+    return;
+  }
+
+  const removed = await deleteWatches(userId, watchId);
+  const watches = await getUserWatches(userId);
+  await ctx.editMessageText(formatWatches(watches), {
+    parse_mode: "HTML",
+    reply_markup: watchesKeyboard(watches),
+  });
+  await ctx.answerCallbackQuery(removed ? "✅ Watch removed" : "⚠️ Nothing to remove");
+}
+
+/** Usage of /digest */
+const DIGEST_USAGE =
+  "Usage:\n" +
+  "/digest daily HH:MM [time zone] - post a daily digest\n" +
+  "/digest weekly <day> HH:MM [time zone] - post a weekly digest\n" +
+  "/digest group | dm - post in the group or send to subscribers\n" +
+  "/digest off - stop digests\n" +
+  "/digest subscribe | unsubscribe - receive this group's digest privately\n\n" +
+  "Time zones are IANA names such as Europe/Berlin (default UTC).";
+
+/**
+ * Check whether the sender of a command may change group settings
+ * Group creators and administrators (including anonymous admins posting as
+ * the group), channel posts and bot admins qualify
+ * @param ctx Grammy context
+ * @returns True if the sender is allowed
+ * @private
+ */
+async function isChatAdmin(ctx: Context): Promise<boolean> {
+  if (!ctx.chat) return false;
+  if (ctx.msg?.sender_chat?.id === ctx.chat.id) return true;
+  if (!ctx.from) return false;
+  if (isAdminUser(ctx.from.id)) return true;
+  try {
+    const member = await ctx.getChatMember(ctx.from.id);
+    return member.status === "creator" || member.status === "administrator";
+  } catch (error) {
+    logger.warn(`[ACCESS] Could not check admin status of user ${ctx.from.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Handle /digest in groups and channels
+ * Admins set the schedule, time zone and delivery; any member may
+ * subscribe to receive the digest privately
+ * Usage: /digest [daily HH:MM [TZ] | weekly <day> HH:MM [TZ] | off | group | dm | subscribe | unsubscribe]
+ */
+export async function handleDigestCommand(ctx: Context): Promise<void> {
+  try {
+    const chat = ctx.chat;
+    if (!chat || chat.type === "private") {
+      await ctx.reply("⚠️ Use /digest in the group you want digests for.");
+      return;
+    }
+
+    const command = parseDigestCommand(ctx.msg?.text || "");
+    if (!command) {
+      await ctx.reply(DIGEST_USAGE);
+      return;
+    }
+
+    const current = await getDigestSchedule(chat.id);
+
+    if (command.action === "status") {
+      const status = current?.enabled
+        ? `🗞 ${describeDigestSchedule(current)}.\nNext digest: ${current.next_run_at.slice(0, 16).replace("T", " ")} UTC`
+        : "🗞 Digests are off for this chat.";
+      await ctx.reply(`${status}\n\n${DIGEST_USAGE}`);
+      return;
+    }
+
+    if (command.action === "subscribe" || command.action === "unsubscribe") {
+      if (!ctx.from || ctx.msg?.sender_chat) {
+        await ctx.reply("⚠️ Subscribing needs a personal account.");
+        return;
+      }
+      if (command.action === "unsubscribe") {
+        const removed = await removeDigestSubscriber(chat.id, ctx.from.id);
+        await ctx.reply(removed ? "✅ You will no longer receive this chat's digest." : "❌ Could not unsubscribe you. Please try again.");
+        return;
+      }
+      const added = await addDigestSubscriber(chat.id, ctx.from.id);
+      const note = current?.enabled && current.delivery === "dm"
+        ? "Start a private chat with me so I can message you."
+        : "Digests are currently posted in the group; you will receive them privately if an admin switches to /digest dm.";
+      await ctx.reply(added ? `✅ Subscribed. ${note}` : "❌ Could not subscribe you. Please try again.");
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply("❌ Only chat admins can change digest settings.");
+      return;
+    }
+
+    if (command.action === "off") {
+      if (current) {
+        await upsertDigestSchedule({ ...current, enabled: false, updated_by: ctx.from?.id ?? null });
+      }
+      await ctx.reply("✅ Digests are off for this chat.");
+      return;
+    }
+
+    if (command.action === "delivery") {
+      if (!current) {
+        await ctx.reply(`⚠️ Set a schedule first.\n\n${DIGEST_USAGE}`);
+        return;
+      }
+      const schedule = { ...current, delivery: command.delivery, updated_by: ctx.from?.id ?? null };
+      const saved = await upsertDigestSchedule(schedule);
+      await ctx.reply(saved ? `✅ ${describeDigestSchedule(schedule)}.` : "❌ Could not save digest settings. Please try again.");
+      return;
+    }
+
+    const timeZone = command.timeZone ?? current?.time_zone ?? "UTC";
+    if (!isValidTimeZone(timeZone)) {
+      await ctx.reply(`❌ Unknown time zone "${timeZone}". Use an IANA name such as Europe/Berlin.`);
+      return;
+    }
+    const settings = {
+      frequency: command.frequency,
+      hour: command.hour,
+      minute: command.minute,
+      weekday: command.weekday,
+      time_zone: timeZone,
+    };
+    const schedule = {
+      group_id: chat.id,
+      ...settings,
+      delivery: current?.delivery ?? ("group" as const),
+      enabled: true,
+      next_run_at: computeNextRun(settings, new Date()).toISOString(),
+      last_sent_at: current?.last_sent_at ?? null,
+      updated_by: ctx.from?.id ?? null,
+    };
+    // digest_schedules references chats
+    await rememberChat(chat);
+    const saved = await upsertDigestSchedule(schedule);
+    await ctx.reply(saved ? `✅ ${describeDigestSchedule(schedule)}.` : "❌ Could not save digest settings. Please try again.");
+  } catch (error) {
+    logger.error("Error in handleDigestCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+const REDACTION_USAGE =
+  "Usage:\n" +
+  "/redaction redact - replace personal data with placeholders such as [email]\n" +
+  "/redaction hash - replace it with a hash, so repeated values stay recognisable\n" +
+  "/redaction drop - do not store messages containing personal data\n" +
+  "/redaction default - use the bot's default";
+
+/**
+ * Handle /redaction in groups and channels
+ * Shows what personal data was removed from the chat's messages; admins
+ * choose whether it is redacted, hashed or the message dropped
+ * Usage: /redaction [redact | hash | drop | default]
+ */
+export async function handleRedactionCommand(ctx: Context): Promise<void> {
+  try {
+    const chat = ctx.chat;
+    if (!chat || chat.type === "private") {
+      await ctx.reply("⚠️ Use /redaction in the group you want to configure.");
+      return;
+    }
+
+    const command = parseRedactionCommand(ctx.msg?.text || "");
+    if (command === undefined) {
+      await ctx.reply(REDACTION_USAGE);
+      return;
+    }
+
+    if (command === "status") {
+      if (!isRedactionEnabled()) {
+        await ctx.reply("🔏 Redaction is turned off for this bot.");
+        return;
+      }
+      const [mode, counts] = await Promise.all([getRedactionMode(chat.id), getRedactionCounts(chat.id)]);
+      const found = counts.length ? formatRedactionCounts(counts).join("\n") : "Nothing redacted yet.";
+      await ctx.reply(`🔏 Personal data in this chat: ${mode}\n\n${found}\n\n${REDACTION_USAGE}`);
+      return;
+    }
+
+    if (!(await isChatAdmin(ctx))) {
+      await ctx.reply("❌ Only chat admins can change redaction settings.");
+      return;
+    }
+
+    if (command === "hash" && !isHashModeAvailable()) {
+      await ctx.reply("❌ Hashing is not available: the bot has no REDACTION_HASH_KEY configured.");
+      return;
+    }
+
+    // redaction_policies references chats
+    await rememberChat(chat);
+    const saved = await setGroupRedactionMode(chat.id, command);
+    const mode = await getRedactionMode(chat.id);
+    await ctx.reply(saved ? `✅ Personal data in this chat: ${mode}.` : "❌ Could not save redaction settings. Please try again.");
+  } catch (error) {
+    logger.error("Error in handleRedactionCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+const RETENTION_USAGE =
+  "Usage:\n" +
+  "/retention messages <days> | off | default - how long messages are kept\n" +
+  "/retention vectors <days> | off | default - how long embeddings are kept\n" +
+  "/retention reset - use the global default for both\n\n" +
+  "off keeps data indefinitely; default falls back to the global setting.";
+
+/**
+ * Handle /retention
+ * In a group, admins set how long that group's messages and embeddings are
+ * kept; in private chat, bot admins set the global default
+ * Usage: /retention [messages|vectors <days>|off|default | reset]
+ */
+export async function handleRetentionCommand(ctx: Context): Promise<void> {
+  try {
+    const chat = ctx.chat;
+    if (!chat) return;
+    const isGlobal = chat.type === "private";
+    const groupId = isGlobal ? GLOBAL_RETENTION_ID : chat.id;
+    const scopeLabel = isGlobal ? "Global default" : "This chat";
+
+    const command = parseRetentionCommand(ctx.msg?.text || "");
+    if (!command) {
+      await ctx.reply(RETENTION_USAGE);
+      return;
+    }
+
+    if (command.action === "status") {
+      const retention = await getEffectiveRetention(isGlobal ? undefined : chat.id);
+      const source = isGlobal || retention.overridden ? "" : " (global default)";
+      await ctx.reply(`🗄 ${scopeLabel}${source}:\n${describeRetention(retention).join("\n")}\n\n${RETENTION_USAGE}`);
+      return;
+    }
+
+    const allowed = isGlobal ? !!ctx.from && isAdminUser(ctx.from.id) : await isChatAdmin(ctx);
+    if (!allowed) {
+      await ctx.reply(isGlobal
+        ? "❌ Only bot admins can change the global retention."
+        : "❌ Only chat admins can change retention settings.");
+      return;
+    }
+
+    let saved: boolean;
+    if (command.action === "reset") {
+      saved = await deleteRetentionPolicy(groupId);
+    } else {
+      const current = await getRetentionPolicy(groupId);
+      const policy = {
+        group_id: groupId,
+        message_retention_days: current?.message_retention_days ?? null,
+        vector_retention_days: current?.vector_retention_days ?? null,
+      };
+      if (command.target === "messages") policy.message_retention_days = command.days;
+      else policy.vector_retention_days = command.days;
+      saved = await upsertRetentionPolicy(policy);
+    }
+
+    if (!saved) {
+      await ctx.reply("❌ Could not save retention settings. Please try again.");
+      return;
+    }
+    const retention = await getEffectiveRetention(isGlobal ? undefined : chat.id);
+    await ctx.reply(`✅ ${scopeLabel}:\n${describeRetention(retention).join("\n")}`);
+  } catch (error) {
+    logger.error("Error in handleRetentionCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
+/**
+ * Handle chat_member updates to keep group membership current
+ * Requires the bot to be an administrator in the group
+ */
+export async function handleChatMemberUpdate(ctx: Context): Promise<void> {
+  try {
+    const update = ctx.chatMember;
+    if (!update) return;
+    await rememberChat(update.chat);
+    const userId = update.new_chat_member.user.id;
+    if (await isUserOptedOut(userId)) {
+      return;
+    }
+    await rememberUser(update.new_chat_member.user);
+    await trackMembership(update.chat.id, userId, update.new_chat_member.status);
+    logger.debug(
+      `[chat_member] User ${userId} in chat ${update.chat.id}: ${update.old_chat_member.status} -> ${update.new_chat_member.status}`
+    );
+  } catch (error) {
+    logger.error("Error in handleChatMemberUpdate:", error);
+  }
+}
+
 /**
  * Menu handlers for Telegram bot commands and interactions
  * Manages all inline keyboard callbacks and menu navigation
  */
 
-import { Context, InlineKeyboard } from "grammy";
+import { Context, InlineKeyboard, InputFile, InputMediaBuilder } from "grammy";
 import { getMessageCount } from "./supabase.js";
 import { areEmbeddingsAvailable, getEmbeddingsProvider } from "./embeddings.js";
 import { logger } from "./logger.js";
@@ -113,6 +981,20 @@ export function getMainMenuKeyboard(): InlineKeyboard {
     .text("❌ Opt Out", "optout");
 }
 
+/**
+ * Create the opt-out choice keyboard
+ * @returns InlineKeyboard with stop, stop-and-erase and cancel options
+ * @private
+ */
+function getOptoutKeyboard(): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("🛑 Stop collecting", "confirm_optout")
+    .row()
+    .text("🗑️ Stop and erase everything", "confirm_optout_erase")
+    .row()
+    .text("❌ Cancel", "cancel");
+}
+
 /**
  * Handle /start command with welcome message and menu
  * @param ctx Grammy context
@@ -127,7 +1009,8 @@ export async function handleStartCommand(ctx: Context): Promise<void> {
         `<b>📊 What I do:</b>\n` +
         `• Capture messages from monitored groups\n` +
         `• Store data in a secure database\n` +
-        `• Process for analysis\n\n` +
+        `• Process for analysis\n` +
+        `• Extract announced events (/events)\n\n` +
         `<b>🛡️ Privacy:</b>\n` +
         `• Only public data is collected\n` +
         `• You can opt-out anytime\n\n` +
@@ -155,14 +1038,12 @@ export async function handleOptoutCommand(ctx: Context): Promise<void> {
       return;
     }
 
-    const keyboard = new InlineKeyboard()
-      .text("✅ Yes, opt out", "confirm_optout")
-      .text("❌ Cancel", "cancel");
-
     await ctx.reply(
-      "⚠️ Are you sure you want to opt out? Your future messages will no longer be collected.",
+      "⚠️ Are you sure you want to opt out?\n\n" +
+        "• Stop collecting: your future messages are no longer collected; what is already stored stays.\n" +
+        "• Stop and erase everything: also deletes your stored messages and everything derived from them. This cannot be undone.",
       {
-        reply_markup: keyboard,
+        reply_markup: getOptoutKeyboard(),
       }
     );
   } catch (error) {
@@ -171,6 +1052,35 @@ export async function handleOptoutCommand(ctx: Context): Promise<void> {
   }
 }
 
+/**
+ * Handle /optin command: collect the user's messages again after an opt-out
+ * @param ctx Grammy context
+ */
+export async function handleOptinCommand(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply("❌ Could not determine your user ID.");
+      return;
+    }
+
+    if (!(await isUserOptedOut(userId))) {
+      await ctx.reply("ℹ️ You are not opted out; your messages are being collected.");
+      return;
+    }
+
+    const success = await removeUserOptOut(userId);
+    await ctx.reply(
+      success
+        ? "✅ Welcome back! Your new messages will be collected again. Use /optout to stop at any time."
+        : "❌ Failed to opt in. Please try again."
+    );
+  } catch (error) {
+    logger.error("Error in handleOptinCommand:", error);
+    await ctx.reply("❌ An error occurred. Please try again.");
+  }
+}
+
 /**
  * Handle /stats command with current statistics
  * @param ctx Grammy context
@@ -182,11 +1092,15 @@ export async function handleStatsCommand(ctx: Context): Promise<void> {
     const embeddingsStatus = areEmbeddingsAvailable()
       ? `✅ Enabled (${provider})`
       : "⚠️ Disabled";
+    const answersStatus = isLLMAvailable()
+      ? `✅ Enabled (${getLLMProvider()})`
+      : "⚠️ Disabled";
 
     await ctx.reply(
       `📊 <b>Bot Statistics</b>\n\n` +
         `Total messages ingested: <code>${count}</code>\n` +
-        `Embeddings: ${embeddingsStatus}`,
+        `Embeddings: ${embeddingsStatus}\n` +
+        `Answers: ${answersStatus}`,
       {
         parse_mode: "HTML",
         reply_markup: new InlineKeyboard().text("🔙 Back to Menu", "main_menu"),
@@ -212,6 +1126,35 @@ export async function handleCallbackQuery(ctx: Context): Promise<void> {
   }
 
   try {
+    if (data.startsWith(SEARCH_PAGE_CALLBACK)) {
+      await handleSearchPageCallback(ctx, parseInt(data.slice(SEARCH_PAGE_CALLBACK.length), 10));
+      return;
+    }
+    if (data.startsWith(SOURCES_CALLBACK)) {
+      await handleSourcesCallback(ctx);
+      return;
+    }
+    if (data.startsWith(UNWATCH_CALLBACK)) {
+      await handleUnwatchCallback(ctx, data.slice(UNWATCH_CALLBACK.length));
+      return;
+    }
+    if (data.startsWith(CLEAR_SCOPE_CALLBACK)) {
+      await handleClearScopeCallback(ctx, data.slice(CLEAR_SCOPE_CALLBACK.length));
+      return;
+    }
+    if (data.startsWith(CLEAR_RANGE_CALLBACK)) {
+      await handleClearRangeCallback(ctx, data.slice(CLEAR_RANGE_CALLBACK.length));
+      return;
+    }
+    if (data.startsWith(CONFIRM_CLEAR_CALLBACK)) {
+      await handleConfirmClearCallback(ctx, data);
+      return;
+    }
+    if (data === EVENTS_ICS_CALLBACK) {
+      await handleEventsIcsCallback(ctx);
+      return;
+    }
+
     switch (data) {
       case "stats":
         await handleStatsCallback(ctx);
@@ -228,12 +1171,12 @@ export async function handleCallbackQuery(ctx: Context): Promise<void> {
       case "confirm_optout":
         await handleConfirmOptoutCallback(ctx);
         break;
+      case "confirm_optout_erase":
+        await handleConfirmOptoutEraseCallback(ctx);
+        break;
       case "clear_chats":
         await handleClearChatsCallback(ctx);
         break;
-      case "confirm_clear_chats":
-        await handleConfirmClearChatsCallback(ctx);
-        break;
       case "cancel":
         await handleCancelCallback(ctx);
         break;
@@ -260,11 +1203,15 @@ async function handleStatsCallback(ctx: Context): Promise<void> {
   const embeddingsStatus = areEmbeddingsAvailable()
     ? `✅ Enabled (${provider})`
     : "⚠️ Disabled";
+  const answersStatus = isLLMAvailable()
+    ? `✅ Enabled (${getLLMProvider()})`
+    : "⚠️ Disabled";
 
   await ctx.editMessageText(
     `📊 <b>Bot Statistics</b>\n\n` +
       `Total messages ingested: <code>${count}</code>\n` +
-      `Embeddings: ${embeddingsStatus}`,
+      `Embeddings: ${embeddingsStatus}\n` +
+      `Answers: ${answersStatus}`,
     {
       parse_mode: "HTML",
       reply_markup: new InlineKeyboard().text("🔙 Back to Menu", "main_menu"),
@@ -304,19 +1251,34 @@ async function handleAboutCallback(ctx: Context): Promise<void> {
  * @private
  */
 async function handlePrivacyCallback(ctx: Context): Promise<void> {
+  const chat = ctx.chat;
+  const groupId = chat && chat.type !== "private" ? chat.id : undefined;
+  const [retention, redactionMode] = await Promise.all([getEffectiveRetention(groupId), getRedactionMode(groupId)]);
   await ctx.editMessageText(
     `🛡️ <b>Privacy Policy</b>\n\n` +
       `<b>Data Collection:</b>\n` +
       `• Only public group messages\n` +
       `• User metadata (name, ID)\n` +
-      `• Timestamps and content\n\n` +
+      `• Timestamps and content\n` +
+      (isRedactionEnabled()
+        ? `• Personal data (emails, phone and card numbers, seed phrases, private keys) ` +
+          `${REDACTION_MODE_DESCRIPTIONS[redactionMode]}\n` +
+          (groupId === undefined ? `• Groups may choose how personal data is handled (/redaction)\n` : "")
+        : "") +
+      `\n` +
+      `<b>Retention:</b>\n` +
+      describeRetention(retention).map((line) => `• ${line}\n`).join("") +
+      (retention.overridden ? "" : `• Groups may set their own period (/retention)\n`) +
+      `\n` +
       `<b>Data Usage:</b>\n` +
       `• Analysis and insights\n` +
       `• Pattern recognition\n` +
       `• Trend identification\n\n` +
       `<b>Your Rights:</b>\n` +
-      `• Opt-out anytime with /optout\n` +
+      `• Opt-out anytime with /optout, optionally erasing your data\n` +
+      `• Opt back in with /optin\n` +
       `• No tracking of opted-out users\n` +
+      `• Download your data with /mydata (private chat)\n` +
       `• Transparent data handling\n\n` +
       `<b>Security:</b>\n` +
       `• Encrypted storage (Supabase)\n` +
@@ -335,17 +1297,14 @@ async function handlePrivacyCallback(ctx: Context): Promise<void> {
  * @private
  */
 async function handleOptoutCallback(ctx: Context): Promise<void> {
-  const keyboard = new InlineKeyboard()
-    .text("✅ Yes, opt out", "confirm_optout")
-    .text("❌ Cancel", "cancel");
-
   await ctx.editMessageText(
     "⚠️ <b>Opt Out Confirmation</b>\n\n" +
-      "Are you sure you want to opt out?\n" +
-      "Your future messages will no longer be collected.",
+      "Are you sure you want to opt out?\n\n" +
+      "<b>Stop collecting:</b> your future messages will no longer be collected.\n" +
+      "<b>Stop and erase everything:</b> also deletes your stored messages and everything derived from them. This cannot be undone.",
     {
       parse_mode: "HTML",
-      reply_markup: keyboard,
+      reply_markup: getOptoutKeyboard(),
     }
   );
   await ctx.answerCallbackQuery();
@@ -353,6 +1312,7 @@ async function handleOptoutCallback(ctx: Context): Promise<void> {
 
 /**
  * Handle confirm optout callback - actually performs opt-out
+ * Opting out twice is harmless
  * @param ctx Grammy context
  * @private
  */
@@ -370,7 +1330,7 @@ async function handleConfirmOptoutCallback(ctx: Context): Promise<void> {
     await ctx.editMessageText(
       `✅ <b>Opt-Out Confirmed</b>\n\n` +
         `You have been successfully opted out.\n` +
-        `Your messages will no longer be collected.`,
+        `Your messages will no longer be collected. Use /optin to opt back in.`,
       {
         parse_mode: "HTML",
         reply_markup: new InlineKeyboard().text("🏠 Main Menu", "main_menu"),
@@ -382,6 +1342,37 @@ async function handleConfirmOptoutCallback(ctx: Context): Promise<void> {
   }
 }
 
+/**
+ * Handle confirm optout and erase callback - opts out and deletes all stored data of the user
+ * @param ctx Grammy context
+ * @private
+ */
+async function handleConfirmOptoutEraseCallback(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery("❌ Error: Could not determine user ID");
+    return;
+  }
+
+  const counts = await optOutAndErase(userId);
+  if (!counts) {
+    await ctx.answerCallbackQuery("❌ Failed to erase your data. Please try again.");
+    return;
+  }
+
+  await ctx.editMessageText(
+    `✅ <b>Opted Out and Erased</b>\n\n` +
+      `Deleted ${counts.conversations ?? 0} message(s) with their edits, attachments, events and embeddings, ` +
+      `plus your profile, memberships, sessions, subscriptions and watches.\n` +
+      `Your messages will no longer be collected. Use /optin to opt back in.`,
+    {
+      parse_mode: "HTML",
+      reply_markup: new InlineKeyboard().text("🏠 Main Menu", "main_menu"),
+    }
+  );
+  await ctx.answerCallbackQuery("✅ Your data has been erased");
+}
+
 /**
  * Handle cancel callback - returns to confirmation dialog
  * @param ctx Grammy context
@@ -409,48 +1400,142 @@ async function handleMainMenuCallback(ctx: Context): Promise<void> {
 }
 
 /**
- * Handle clear chats callback - shows confirmation
+ * Handle clear chats callback - lists the groups the user has stored messages in
  * @param ctx Grammy context
  * @private
  */
 async function handleClearChatsCallback(ctx: Context): Promise<void> {
-  const keyboard = new InlineKeyboard()
-    .text("✅ Yes, clear all", "confirm_clear_chats")
-    .text("❌ Cancel", "cancel");
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery("❌ Error: Could not determine user ID");
+    return;
+  }
+
+  const groups = await getUserMessageGroups(userId);
+  if (!groups.length) {
+    await ctx.editMessageText("🗑️ <b>Clear Chats</b>\n\nYou have no stored messages.", {
+      parse_mode: "HTML",
+      reply_markup: new InlineKeyboard().text("🏠 Main Menu", "main_menu"),
+    });
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  await ctx.editMessageText(
+    "🗑️ <b>Clear Chats</b>\n\n" +
+      "Choose the group to clear messages from. " +
+      "Numbers show how many of your messages are stored there.",
+    {
+      parse_mode: "HTML",
+      reply_markup: clearGroupsKeyboard(groups),
+    }
+  );
+  await ctx.answerCallbackQuery();
+}
+
+/**
+ * Handle a group button of the Clear Chats menu - shows the date ranges
+ * @param ctx Grammy context
+ * @param value Encoded group ID or "all"
+ * @private
+ */
+async function handleClearScopeCallback(ctx: Context, value: string): Promise<void> {
+  const groupId = parseClearGroup(value);
+  if (groupId === null) {
+    await ctx.answerCallbackQuery("❌ Unknown action");
+    return;
+  }
+
+  const groups = ctx.from ? await getUserMessageGroups(ctx.from.id) : [];
+  await ctx.editMessageText(
+    "🗑️ <b>Clear Chats</b>\n\n" +
+      `Which of your messages ${describeClearScope({ groupId }, groups)} should be deleted?`,
+    {
+      parse_mode: "HTML",
+      reply_markup: clearRangeKeyboard(groupId),
+    }
+  );
+  await ctx.answerCallbackQuery();
+}
+
+/**
+ * Handle a date range button - shows the number of messages and asks for confirmation
+ * @param ctx Grammy context
+ * @param value "<encoded group>:<range code>"
+ * @private
+ */
+async function handleClearRangeCallback(ctx: Context, value: string): Promise<void> {
+  const userId = ctx.from?.id;
+  const [group, code] = value.split(":");
+  const groupId = parseClearGroup(group);
+  const scope = groupId === null ? null : resolveClearRange(groupId, code);
+  if (!userId || !scope) {
+    await ctx.answerCallbackQuery("❌ Unknown action");
+    return;
+  }
+
+  const [count, groups] = await Promise.all([countUserMessages(userId, scope), getUserMessageGroups(userId)]);
+  if (count === null) {
+    await ctx.answerCallbackQuery("❌ Could not count your messages. Please try again.");
+    return;
+  }
+
+  const description = describeClearScope(scope, groups);
+  const back = new InlineKeyboard().text("⬅️ Back", `${CLEAR_SCOPE_CALLBACK}${group}`).text("❌ Cancel", "cancel");
+  if (count === 0) {
+    await ctx.editMessageText(`🗑️ <b>Clear Chats</b>\n\nYou have no stored messages ${description}.`, {
+      parse_mode: "HTML",
+      reply_markup: back,
+    });
+    await ctx.answerCallbackQuery();
+    return;
+  }
 
   await ctx.editMessageText(
     "⚠️ <b>Clear Chats Confirmation</b>\n\n" +
-      "Are you sure you want to clear all your chat history?\n" +
+      `This deletes <b>${count}</b> of your message(s) ${description}.\n` +
       "This action cannot be undone.",
     {
       parse_mode: "HTML",
-      reply_markup: keyboard,
+      reply_markup: new InlineKeyboard()
+        .text(`✅ Yes, delete ${count}`, encodeClearScope(scope))
+        .row()
+        .text("⬅️ Back", `${CLEAR_SCOPE_CALLBACK}${group}`)
+        .text("❌ Cancel", "cancel"),
     }
   );
   await ctx.answerCallbackQuery();
 }
 
 /**
- * Handle confirm clear chats callback - actually performs the clearing
+ * Handle confirm clear callback - deletes the messages in the confirmed scope
  * @param ctx Grammy context
+ * @param data Callback data starting with CONFIRM_CLEAR_CALLBACK
  * @private
  */
-async function handleConfirmClearChatsCallback(ctx: Context): Promise<void> {
-  const { clearUserMessages } = await import("./supabase.js");
-
+async function handleConfirmClearCallback(ctx: Context, data: string): Promise<void> {
   const userId = ctx.from?.id;
   if (!userId) {
     await ctx.answerCallbackQuery("❌ Error: Could not determine user ID");
     return;
   }
 
-  const deletedCount = await clearUserMessages(userId);
+  const scope = parseClearScope(data);
+  if (!scope) {
+    await ctx.answerCallbackQuery("❌ Unknown action");
+    return;
+  }
+
+  const groups = await getUserMessageGroups(userId);
+  const deletedCount = await clearUserMessages(userId, scope);
   await ctx.editMessageText(
     `✅ <b>Chats Cleared</b>\n\n` +
-      `Successfully deleted ${deletedCount} message(s) from your chat history.`,
+      `Deleted ${deletedCount} message(s) ${describeClearScope(scope, groups)}.`,
     {
       parse_mode: "HTML",
-      reply_markup: new InlineKeyboard().text("🏠 Main Menu", "main_menu"),
+      reply_markup: new InlineKeyboard()
+        .text("🗑️ Clear more", "clear_chats")
+        .text("🏠 Main Menu", "main_menu"),
     }
   );
   await ctx.answerCallbackQuery("✅ Chat history cleared");
@@ -0,0 +1,165 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Message } from 'grammy/types';
+import { ConversationRecord } from './types.js';
+import { ingestEdit, ingestMessage, IngestionDeps } from './ingestion.js';
+import { logger, LogLevel } from './logger.js';
+
+logger.setLevel(LogLevel.ERROR);
+
+const GROUP = { id: -1001, type: 'supergroup', title: 'Events' } as const;
+const USER = { id: 42, is_bot: false, first_name: 'Ada', username: 'ada' };
+
+/**
+ * Stub database services that record every call
+ * @param overrides Services to replace
+ * @returns The services and the calls made to them, by name
+ */
+function stubDeps(overrides: Partial<IngestionDeps> = {}) {
+  const calls: Record<string, unknown[][]> = {};
+  const record = (name: string, args: unknown[]) => {
+    (calls[name] ??= []).push(args);
+  };
+
+  const defaults: IngestionDeps = {
+    isUserOptedOut: async () => false,
+    trackMembership: async () => {},
+    insertMessage: async (row) => ({ ...row, id: '7' }),
+    enqueueEmbeddingJob: async () => true,
+    recordMessageEdit: async () => 7,
+    rememberChat: async () => {},
+    rememberUser: async () => {},
+    forgetChat: () => {},
+    forgetUser: () => {},
+    upsertMessageMedia: async () => true,
+    extractDocumentText: async () => null,
+    recordMessageEvents: async () => {},
+    notifyWatchers: async () => {},
+    redactMessageText: async (_groupId, text) => ({ text, matches: {}, found: 0, dropped: false }),
+  };
+
+  const deps = Object.fromEntries(
+    Object.entries({ ...defaults, ...overrides }).map(([name, fn]) => [
+      name,
+      (...args: unknown[]) => {
+        record(name, args);
+        return (fn as (...args: unknown[]) => unknown)(...args);
+      },
+    ])
+  ) as unknown as IngestionDeps;
+
+  return { deps, calls };
+}
+
+/**
+ * Build a group message from a user
+ * @param fields Fields to add or override
+ * @returns Telegram message
+ */
+function groupMessage(fields: Partial<Message> = {}): Message {
+  return { message_id: 1, date: 1760000000, chat: GROUP, from: USER, text: 'hello', ...fields } as Message;
+}
+
+test('skips messages from opted-out users', async () => {
+  const { deps, calls } = stubDeps({ isUserOptedOut: async () => true });
+
+  assert.equal(await ingestMessage(groupMessage(), deps), 'skipped');
+  assert.equal(calls.rememberChat?.length, 1);
+  assert.equal(calls.rememberUser, undefined);
+  assert.equal(calls.insertMessage, undefined);
+});
+
+test('attributes channel posts without from to the sending chat', async () => {
+  const channel = { id: -1002, type: 'channel', title: 'Announcements', username: 'announce' } as const;
+  const { deps, calls } = stubDeps();
+
+  const outcome = await ingestMessage(
+    { message_id: 3, date: 1760000000, chat: channel, sender_chat: channel, author_signature: 'Bob', text: 'Launch' } as Message,
+    deps
+  );
+
+  assert.equal(outcome, 'stored');
+  const [row] = calls.insertMessage[0] as [ConversationRecord];
+  assert.equal(row.user_id, null);
+  assert.equal(row.sender_chat_id, channel.id);
+  assert.equal(row.author_signature, 'Bob');
+  assert.equal(row.user_name, 'announce');
+  assert.equal(calls.rememberUser, undefined);
+  assert.equal(calls.trackMembership, undefined);
+  assert.deepEqual(calls.enqueueEmbeddingJob, [[7]]);
+});
+
+test('stores captions as text and records the attachment', async () => {
+  const { deps, calls } = stubDeps();
+  const photo = { file_id: 'f', file_unique_id: 'u', width: 800, height: 600 };
+
+  const outcome = await ingestMessage(groupMessage({ text: undefined, caption: 'Venue map', photo: [photo] }), deps);
+
+  assert.equal(outcome, 'stored');
+  assert.equal((calls.insertMessage[0][0] as ConversationRecord).text, 'Venue map');
+  assert.equal(calls.upsertMessageMedia.length, 1);
+  assert.deepEqual(calls.upsertMessageMedia[0][0], {
+    media_type: 'photo',
+    file_id: 'f',
+    file_unique_id: 'u',
+    file_size: null,
+    width: 800,
+    height: 600,
+    conversation_id: 7,
+    text_extracted: false,
+  });
+});
+
+test('adds extracted document text to the message text', async () => {
+  const { deps, calls } = stubDeps({ extractDocumentText: async () => 'Agenda: 10:00 keynote' });
+  const document = { file_id: 'd', file_unique_id: 'du', file_name: 'agenda.txt', mime_type: 'text/plain' };
+
+  assert.equal(await ingestMessage(groupMessage({ text: undefined, caption: 'Agenda', document }), deps), 'stored');
+  assert.equal(
+    (calls.insertMessage[0][0] as ConversationRecord).text,
+    'Agenda\n\nagenda.txt:\nAgenda: 10:00 keynote'
+  );
+  assert.equal((calls.upsertMessageMedia[0][0] as { text_extracted: boolean }).text_extracted, true);
+});
+
+test('rewrites the chat and sender and retries a failed insert', async () => {
+  let attempts = 0;
+  const { deps, calls } = stubDeps({
+    insertMessage: async (row) => (++attempts === 1 ? null : { ...row, id: '7' }),
+  });
+
+  assert.equal(await ingestMessage(groupMessage(), deps), 'stored');
+  assert.equal(calls.insertMessage.length, 2);
+  assert.deepEqual(calls.forgetChat, [[GROUP.id]]);
+  assert.deepEqual(calls.forgetUser, [[USER.id]]);
+  assert.equal(calls.rememberChat.length, 2);
+  assert.equal(calls.rememberUser.length, 2);
+});
+
+test('fails after the retried insert fails too', async () => {
+  const { deps, calls } = stubDeps({ insertMessage: async () => null });
+
+  assert.equal(await ingestMessage(groupMessage(), deps), 'failed');
+  assert.equal(calls.insertMessage.length, 2);
+  assert.equal(calls.enqueueEmbeddingJob, undefined);
+});
+
+test('ignores edits a drop policy rejects', async () => {
+  const { deps, calls } = stubDeps({
+    redactMessageText: async (_groupId, text) => ({ text, matches: { email: 1 }, found: 1, dropped: true }),
+  });
+
+  assert.equal(await ingestEdit(groupMessage({ text: 'mail me at ada@example.com', edit_date: 1760000100 }), deps), 'skipped');
+  assert.equal(calls.recordMessageEdit, undefined);
+  assert.equal(calls.enqueueEmbeddingJob, undefined);
+});
+
+test('applies redacted edits and re-queues the embedding', async () => {
+  const { deps, calls } = stubDeps({
+    redactMessageText: async () => ({ text: 'mail me at [email]', matches: { email: 1 }, found: 1, dropped: false }),
+  });
+
+  assert.equal(await ingestEdit(groupMessage({ text: 'mail me at ada@example.com', edit_date: 1760000100 }), deps), 'updated');
+  assert.deepEqual(calls.recordMessageEdit[0].slice(0, 3), [GROUP.id, 1, 'mail me at [email]']);
+  assert.deepEqual(calls.enqueueEmbeddingJob, [[7]]);
+});
@@ -0,0 +1,404 @@
+/**
+ * Message ingestion pipeline
+ * Turns an incoming Telegram message into a stored conversation row
+ *
+ * Steps:
+ * 1. Record the chat in the chats table (every message, so title changes are picked up)
+ * 2. Skip messages with nothing to store or no sender, and senders who opted out
+ *    (channel posts are attributed to their sender_chat and author signature)
+ * 3. Record the sender in telegram_users and their group membership for DM /ask access control
+ * 4. Redact personal data with the group's policy, or skip the message if the
+ *    policy drops it (see redaction.ts)
+ * 5. Store the message with its reply, forum topic and forward metadata and
+ *    queue its embedding job. Captions, poll contents and extracted document
+ *    text become the message text; attachment metadata goes to message_media.
+ * 6. Extract announced events into the events table (see events.ts)
+ * 7. Alert users whose keyword/regex watches match (see watches.ts)
+ *
+ * Edits (edited_message / edited_channel_post) are redacted the same way,
+ * replace the stored text, archive the previous version in
+ * conversation_revisions, re-queue the embedding and re-extract events.
+ * Edits a drop policy rejects are ignored, so the stored version stays.
+ *
+ * Database access goes through IngestionDeps so the pipeline can be
+ * exercised without Supabase.
+ */
+
+import type { Chat, Document, Message, User } from 'grammy/types';
+import { ConversationRecord, ForwardOrigin, MessageMediaRecord, TelegramMessage } from './types.js';
+import {
+  enqueueEmbeddingJob,
+  insertMessage,
+  isUserOptedOut,
+  recordMessageEdit,
+  upsertMessageMedia,
+} from './supabase.js';
+import { trackMembership } from './access.js';
+import { forgetChat, forgetUser, rememberChat, rememberUser } from './directory.js';
+import { extractDocumentText, messageText, MessageMedia, toMessageMedia } from './media.js';
+import { recordMessageEvents } from './events.js';
+import { notifyWatchers } from './watches.js';
+import { redactMessageText, RedactionResult } from './redaction.js';
+import { logger } from './logger.js';
+
+/**
+ * Services used by the ingestion pipeline
+ */
+export interface IngestionDeps {
+  isUserOptedOut: (userId: number) => Promise<boolean>;
+  trackMembership: (groupId: number, userId: number) => Promise<void>;
+  insertMessage: (record: ConversationRecord) => Promise<ConversationRecord | null>;
+  enqueueEmbeddingJob: (conversationId: number) => Promise<boolean>;
+  recordMessageEdit: (groupId: number, messageId: number, text: string, editedAt: Date) => Promise<number | null>;
+  rememberChat: (chat: Chat) => Promise<void>;
+  rememberUser: (user: User) => Promise<void>;
+  forgetChat: (chatId: number) => void;
+  forgetUser: (userId: number) => void;
+  upsertMessageMedia: (record: MessageMediaRecord) => Promise<boolean>;
+  extractDocumentText: (document: Document) => Promise<string | null>;
+  recordMessageEvents: (
+    conversationId: number,
+    groupId: number,
+    text: string,
+    postedAt: Date,
+    edited?: boolean
+  ) => Promise<void>;
+  notifyWatchers: (record: ConversationRecord) => Promise<void>;
+  redactMessageText: (groupId: number, text: string) => Promise<RedactionResult>;
+}
+
+/**
+ * Result of ingesting one message
+ * - stored: row written (embedding queued)
+ * - updated: edit applied to an existing row (embedding re-queued)
+ * - skipped: nothing to store (no text or media, no sender, opted out, dropped for personal data,
+ *   unknown or unchanged edit)
+ * - failed: the database rejected the row
+ */
+export type IngestionOutcome = 'stored' | 'updated' | 'skipped' | 'failed';
+
+/**
+ * Default dependencies backed by Supabase
+ */
+export const defaultIngestionDeps: IngestionDeps = {
+  isUserOptedOut,
+  trackMembership,
+  insertMessage,
+  enqueueEmbeddingJob,
+  recordMessageEdit,
+  rememberChat,
+  rememberUser,
+  forgetChat,
+  forgetUser,
+  upsertMessageMedia,
+  extractDocumentText,
+  recordMessageEvents,
+  notifyWatchers,
+  redactMessageText,
+};
+
+/**
+ * Map a Telegram message to a conversations row
+ * @param message Parsed Telegram message
+ * @returns Database record (vector is left out; the embedding worker fills it in)
+ */
+export function toConversationRecord(message: TelegramMessage): ConversationRecord {
+  return {
+    message_id: message.messageId,
+    text: message.text,
+    user_id: message.userId,
+    group_id: message.groupId,
+    timestamp: message.timestamp.toISOString(),
+    user_name: message.userName,
+    user_first_name: message.userFirstName,
+    user_last_name: message.userLastName,
+    sender_chat_id: message.senderChatId ?? null,
+    author_signature: message.authorSignature ?? null,
+    reply_to_message_id: message.replyToMessageId ?? null,
+    message_thread_id: message.messageThreadId ?? null,
+    forward_origin_type: message.forward?.type ?? null,
+    forward_from_user_id: message.forward?.userId ?? null,
+    forward_from_chat_id: message.forward?.chatId ?? null,
+    forward_from_message_id: message.forward?.messageId ?? null,
+    forward_sender_name: message.forward?.senderName ?? null,
+    forward_date: message.forward?.date.toISOString() ?? null,
+  };
+}
+
+/**
+ * Display name for a sending chat (channel or anonymous group admin)
+ * @param chat Sender chat from the message
+ * @returns Username, title, or undefined
+ * @private
+ */
+function senderChatName(chat?: Chat): string | undefined {
+  if (!chat) return undefined;
+  if ('username' in chat && chat.username) return chat.username;
+  if ('title' in chat) return chat.title;
+  return undefined;
+}
+
+/**
+ * The message this one replies to
+ * In forum topics every message "replies" to the topic's creation message,
+ * which is not a real reply and is dropped here
+ * @param message Raw Telegram message
+ * @returns Replied-to message ID, or undefined
+ * @private
+ */
+function replyTarget(message: Message): number | undefined {
+  const replyId = message.reply_to_message?.message_id;
+  if (replyId === undefined) return undefined;
+  if (message.is_topic_message && replyId === message.message_thread_id) return undefined;
+  return replyId;
+}
+
+/**
+ * Describe where a forwarded message came from
+ * The original author is only kept if they have not opted out
+ * @param message Raw Telegram message
+ * @param deps Database services (for the opt-out check)
+ * @returns Forward origin, or undefined if the message is not forwarded
+ * @private
+ */
+async function forwardOrigin(
+  message: Message,
+  deps: IngestionDeps
+): Promise<ForwardOrigin | undefined> {
+  const origin = message.forward_origin;
+  if (!origin) return undefined;
+
+  const forward: ForwardOrigin = { type: origin.type, date: new Date(origin.date * 1000) };
+  switch (origin.type) {
+    case 'user':
+      if (!(await deps.isUserOptedOut(origin.sender_user.id))) {
+        forward.userId = origin.sender_user.id;
+        forward.senderName = origin.sender_user.username || origin.sender_user.first_name;
+      }
+      break;
+    case 'hidden_user':
+      forward.senderName = origin.sender_user_name;
+      break;
+    case 'chat':
+      forward.chatId = origin.sender_chat.id;
+      forward.senderName = senderChatName(origin.sender_chat);
+      break;
+    case 'channel':
+      forward.chatId = origin.chat.id;
+      forward.messageId = origin.message_id;
+      forward.senderName = senderChatName(origin.chat);
+      break;
+  }
+  return forward;
+}
+
+/**
+ * Store attachment metadata for a stored message
+ * A failure is logged but does not fail ingestion; the text is already stored
+ * @private
+ */
+async function storeMedia(
+  conversationId: number,
+  media: MessageMedia,
+  textExtracted: boolean,
+  deps: IngestionDeps
+): Promise<void> {
+  const saved = await deps.upsertMessageMedia({
+    ...media,
+    conversation_id: conversationId,
+    text_extracted: textExtracted,
+  });
+  if (!saved) {
+    logger.warn(`[INGEST] Media metadata for conversation ${conversationId} was not stored`);
+  }
+}
+
+/**
+ * Insert a message, rewriting its chat and sender once if the insert fails
+ * The directory skips rows it wrote recently, so a chat or user deleted since
+ * (erasure in another process) would fail the foreign keys until its cache
+ * entry expires
+ * @param record Conversation record
+ * @param chat Chat the message was posted in
+ * @param user Sender, if the message was not sent as a chat
+ * @param deps Database services
+ * @returns Stored record, or null if the retry failed too
+ * @private
+ */
+async function insertWithDirectoryRows(
+  record: ConversationRecord,
+  chat: Chat,
+  user: User | undefined,
+  deps: IngestionDeps
+): Promise<ConversationRecord | null> {
+  const stored = await deps.insertMessage(record);
+  if (stored) {
+    return stored;
+  }
+
+  deps.forgetChat(chat.id);
+  await deps.rememberChat(chat);
+  if (user) {
+    deps.forgetUser(user.id);
+    await deps.rememberUser(user);
+  }
+  logger.debug(`[INGEST] Retrying message ${record.message_id} after rewriting its chat and sender`);
+  return deps.insertMessage(record);
+}
+
+/**
+ * Ingest one incoming Telegram message
+ * @param message Raw Telegram message from the update
+ * @param deps Database services (defaults to Supabase)
+ * @returns What happened to the message
+ */
+export async function ingestMessage(
+  message: Message,
+  deps: IngestionDeps = defaultIngestionDeps
+): Promise<IngestionOutcome> {
+  // Chats are referenced by stored messages and memberships, so record them first
+  const chat = message.chat;
+  await deps.rememberChat(chat);
+
+  const media = toMessageMedia(message);
+  if (!messageText(message, media)) {
+    logger.debug('[INGEST] No text or media in message, skipping.');
+    return 'skipped';
+  }
+
+  // Channel posts and anonymous admins speak as a chat (sender_chat), not a user.
+  // In that case `from` is absent or a placeholder account and no user is recorded.
+  const senderChat = message.sender_chat;
+  const user = senderChat ? undefined : message.from;
+  if (!user && !senderChat) {
+    logger.debug('[INGEST] No sender in message, skipping.');
+    return 'skipped';
+  }
+
+  if (senderChat && senderChat.id !== chat.id) {
+    await deps.rememberChat(senderChat);
+  }
+
+  if (user) {
+    // Check if user has opted out
+    const optedOut = await deps.isUserOptedOut(user.id);
+    if (optedOut) {
+      logger.debug(`[INGEST] User ${user.id} is opted out, skipping message.`);
+      return 'skipped';
+    }
+
+    await deps.rememberUser(user);
+
+    // Senders are members of the group they post in
+    if (chat.type === 'group' || chat.type === 'supergroup') {
+      try {
+        await deps.trackMembership(chat.id, user.id);
+      } catch (error) {
+        logger.warn(`[INGEST] Membership tracking failed for user ${user.id}:`, error);
+      }
+    }
+  }
+
+  // Only download documents of senders who have not opted out
+  const extracted = message.document ? await deps.extractDocumentText(message.document) : null;
+
+  const redacted = await deps.redactMessageText(chat.id, messageText(message, media, extracted) ?? '');
+  if (redacted.dropped) {
+    logger.debug(`[INGEST] Message ${message.message_id} contains personal data, dropped by group policy.`);
+    return 'skipped';
+  }
+
+  const telegramMessage: TelegramMessage = {
+    messageId: message.message_id,
+    text: redacted.text,
+    userId: user ? user.id : null,
+    groupId: chat.id,
+    timestamp: new Date(message.date * 1000),
+    userName: user ? user.username : senderChatName(senderChat),
+    userFirstName: user?.first_name,
+    userLastName: user?.last_name,
+    senderChatId: senderChat?.id,
+    authorSignature: message.author_signature,
+    replyToMessageId: replyTarget(message),
+    messageThreadId: message.is_topic_message ? message.message_thread_id : undefined,
+    forward: await forwardOrigin(message, deps),
+  };
+
+  const record = toConversationRecord(telegramMessage);
+  logger.debug('[INGEST] Insert attempt:', {
+    message_id: record.message_id,
+    group_id: record.group_id,
+    user_id: record.user_id,
+  });
+
+  const stored = await insertWithDirectoryRows(record, chat, user, deps);
+  if (!stored) {
+    return 'failed';
+  }
+
+  if (media && stored.id) {
+    await storeMedia(Number(stored.id), media, !!extracted, deps);
+  }
+
+  // Embedding happens in the background worker; redelivered messages keep their vector
+  if (stored.id && !stored.vector) {
+    await deps.enqueueEmbeddingJob(Number(stored.id));
+  }
+
+  if (stored.id) {
+    await deps.recordMessageEvents(Number(stored.id), chat.id, record.text, telegramMessage.timestamp);
+    await deps.notifyWatchers(stored);
+  }
+  return 'stored';
+}
+
+/**
+ * Apply an edit to a previously ingested message
+ * @param message Edited Telegram message (edited_message or edited_channel_post)
+ * @param deps Database services (defaults to Supabase)
+ * @returns 'updated' if the stored text changed, otherwise 'skipped'
+ */
+export async function ingestEdit(
+  message: Message,
+  deps: IngestionDeps = defaultIngestionDeps
+): Promise<IngestionOutcome> {
+  const media = toMessageMedia(message);
+  if (!messageText(message, media)) {
+    logger.debug('[INGEST] No text or media in edited message, skipping.');
+    return 'skipped';
+  }
+
+  if (message.from && (await deps.isUserOptedOut(message.from.id))) {
+    logger.debug(`[INGEST] User ${message.from.id} is opted out, skipping edit.`);
+    return 'skipped';
+  }
+
+  // Captions and attached files can change, so extract again
+  const extracted = message.document ? await deps.extractDocumentText(message.document) : null;
+  const redacted = await deps.redactMessageText(message.chat.id, messageText(message, media, extracted) ?? '');
+  if (redacted.dropped) {
+    logger.debug(`[INGEST] Edit of message ${message.message_id} contains personal data, dropped by group policy.`);
+    return 'skipped';
+  }
+  const text = redacted.text;
+
+  const editedAt = new Date((message.edit_date ?? message.date) * 1000);
+  const conversationId = await deps.recordMessageEdit(
+    message.chat.id,
+    message.message_id,
+    text,
+    editedAt
+  );
+  if (!conversationId) {
+    logger.debug(`[INGEST] Edit of unknown or unchanged message ${message.message_id}, skipping.`);
+    return 'skipped';
+  }
+
+  if (media) {
+    await storeMedia(conversationId, media, !!extracted, deps);
+  }
+
+  await deps.enqueueEmbeddingJob(conversationId);
+  await deps.recordMessageEvents(conversationId, message.chat.id, text, new Date(message.date * 1000), true);
+  return 'updated';
+}
@@ -0,0 +1,292 @@
+/**
+ * LLM module for generating answers from prompts
+ * Wraps chat-completion backends behind a common provider interface
+ *
+ * Supported providers:
+ * - openai: OpenAI chat completions (OPENAI_API_KEY)
+ * - gemini: Google Gemini generateContent (GEMINI_API_KEY)
+ * - openai-compatible: any OpenAI-compatible server at LLM_BASE_URL
+ *   (e.g. a local llama.cpp or Ollama instance)
+ *
+ * Without an explicit LLM_PROVIDER the first available key wins:
+ * OpenAI, then Gemini, then none (questions cannot be answered).
+ */
+
+import { AskSessionTurn, BotConfig, ConversationRecord, LLMProviderName } from './types.js';
+import { authorName, chatName } from './directory.js';
+import { redactPromptText } from './redaction.js';
+import { logger } from './logger.js';
+
+/** System prompt shared by every provider */
+const SYSTEM_PROMPT =
+  'You are a helpful assistant that answers questions about Telegram group data.';
+
+/** Default model per provider when LLM_MODEL is not set */
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4',
+  gemini: 'gemini-1.5-flash',
+  'openai-compatible': 'llama3',
+};
+
+/**
+ * Options passed to a provider for each completion
+ */
+export interface CompletionOptions {
+  /** Model name understood by the provider */
+  model: string;
+  /** Sampling temperature */
+  temperature: number;
+  /** Maximum number of tokens to generate */
+  maxTokens: number;
+}
+
+/**
+ * Chat-completion backend
+ */
+export interface ChatProvider {
+  /** Provider identifier */
+  readonly name: LLMProviderName;
+  /**
+   * Generate a completion for a single user prompt
+   * @param systemPrompt Instructions for the model
+   * @param prompt User prompt
+   * @param options Model, temperature and token limit
+   * @returns Generated text
+   * @throws Error if the backend request fails
+   */
+  complete(systemPrompt: string, prompt: string, options: CompletionOptions): Promise<string>;
+}
+
+let provider: ChatProvider | null = null;
+let completionOptions: CompletionOptions | null = null;
+
+/**
+ * Create a provider backed by the OpenAI SDK
+ * Also used for OpenAI-compatible servers via a custom base URL
+ * @private
+ */
+async function createOpenAIProvider(
+  name: 'openai' | 'openai-compatible',
+  apiKey: string,
+  baseURL?: string
+): Promise<ChatProvider> {
+  const { OpenAI } = await import('openai');
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+    async complete(systemPrompt, prompt, options) {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: prompt },
+        ],
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      });
+      return response.choices[0]?.message?.content?.trim() || '';
+    },
+  };
+}
+
+/**
+ * Create a provider backed by Google Gemini
+ * @private
+ */
+async function createGeminiProvider(apiKey: string): Promise<ChatProvider> {
+  const { GoogleGenerativeAI } = await import('@google/generative-ai');
+  const client = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: 'gemini',
+    async complete(systemPrompt, prompt, options) {
+      const model = client.getGenerativeModel({
+        model: options.model,
+        systemInstruction: systemPrompt,
+        generationConfig: {
+          temperature: options.temperature,
+          maxOutputTokens: options.maxTokens,
+        },
+      });
+      const result = await model.generateContent(prompt);
+      return result.response.text().trim();
+    },
+  };
+}
+
+/**
+ * Pick the provider to use from configuration
+ * @param config Bot configuration
+ * @returns Provider name or null if none is usable
+ * @private
+ */
+function resolveProviderName(config: BotConfig): LLMProviderName | null {
+  if (config.llmProvider) {
+    return config.llmProvider;
+  }
+  if (config.openaiApiKey) {
+    return 'openai';
+  }
+  if (config.geminiApiKey) {
+    return 'gemini';
+  }
+  return null;
+}
+
+/**
+ * Initialize the answer provider from configuration
+ * @param config Bot configuration
+ * @throws No error thrown; logs a warning and leaves answering disabled on failure
+ */
+export async function initLLM(config: BotConfig): Promise<void> {
+  const name = resolveProviderName(config);
+  provider = null;
+  completionOptions = null;
+
+  if (!name) {
+    logger.warn('⚠️  No LLM provider configured. /ask and @mention answers are disabled.');
+    return;
+  }
+
+  try {
+    switch (name) {
+      case 'openai':
+        if (!config.openaiApiKey) throw new Error('OPENAI_API_KEY is required');
+        provider = await createOpenAIProvider('openai', config.openaiApiKey);
+        break;
+      case 'gemini':
+        if (!config.geminiApiKey) throw new Error('GEMINI_API_KEY is required');
+        provider = await createGeminiProvider(config.geminiApiKey);
+        break;
+      case 'openai-compatible':
+        if (!config.llmBaseUrl) throw new Error('LLM_BASE_URL is required');
+        // Local servers usually ignore the key, but the SDK insists on one
+        provider = await createOpenAIProvider(
+          'openai-compatible',
+          config.llmApiKey || 'not-needed',
+          config.llmBaseUrl
+        );
+        break;
+    }
+
+    completionOptions = {
+      model: config.llmModel || DEFAULT_MODELS[name],
+      temperature: config.llmTemperature,
+      maxTokens: config.llmMaxTokens,
+    };
+    logger.info(`✅ LLM provider initialized (${name}, model ${completionOptions.model})`);
+  } catch (error) {
+    logger.warn(
+      `Failed to initialize LLM provider ${name}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    provider = null;
+    completionOptions = null;
+  }
+}
+
+/**
+ * Check if an answer provider is initialized
+ * @returns True if prompts can be answered
+ */
+export function isLLMAvailable(): boolean {
+  return provider !== null;
+}
+
+/**
+ * Get current answer provider and model
+ * @returns Description like 'OPENAI (gpt-4)' or 'None'
+ */
+export function getLLMProvider(): string {
+  if (!provider || !completionOptions) {
+    return 'None';
+  }
+  return `${provider.name.toUpperCase()} (${completionOptions.model})`;
+}
+
+/**
+ * Send a prompt to the configured provider and return the answer
+ * @param prompt The prompt string
+ * @returns The model's answer or error message
+ */
+export async function generateAnswer(prompt: string): Promise<string> {
+  if (!provider || !completionOptions) {
+    logger.error('LLM provider not initialized.');
+    return 'Answering is not configured for this bot.';
+  }
+  try {
+    return await provider.complete(SYSTEM_PROMPT, prompt, completionOptions);
+  } catch (error) {
+    logger.error(`Error sending prompt to ${provider.name}:`, error);
+    return 'Error communicating with the language model.';
+  }
+}
+
+/**
+ * Send a prompt with task-specific instructions, e.g. for structured extraction
+ * Uses temperature 0 so repeated runs give the same output
+ * @param instructions System prompt for the task
+ * @param prompt The prompt string
+ * @returns The model's output, or null if no provider is configured or the request failed
+ */
+export async function generateCompletion(instructions: string, prompt: string): Promise<string | null> {
+  if (!provider || !completionOptions) {
+    return null;
+  }
+  try {
+    return await provider.complete(instructions, prompt, { ...completionOptions, temperature: 0 });
+  } catch (error) {
+    logger.error(`Error sending prompt to ${provider.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Format Telegram messages into a prompt for the answer provider
+ * Messages are numbered from 1 in the given order and the model is asked to
+ * cite those numbers as [n] (see renderCitations). Replies name the sender
+ * they answer when that message is part of the context. Previous turns of a
+ * private-chat session are included so follow-up questions make sense.
+ * Personal data in all of it is redacted (see redactPromptText)
+ * @param messages Array of ConversationRecord
+ * @param userQuestion The user's question
+ * @param history Previous question/answer turns, oldest first
+ * @returns Formatted prompt string
+ */
+export function buildOpenAIPrompt(
+  messages: ConversationRecord[],
+  userQuestion: string,
+  history: AskSessionTurn[] = []
+): string {
+  const senders = new Map(messages.map(msg => [`${msg.group_id}:${msg.message_id}`, authorName(msg)]));
+  const context = messages
+    .map((msg, i) => {
+      const user = authorName(msg);
+      // Prefer the group/channel name from the chats table, else fall back to group_id
+      const name = chatName(msg);
+      const group = name ? `Group: ${name}` : msg.group_id ? `Group ID: ${msg.group_id}` : '';
+      const repliedTo = msg.reply_to_message_id
+        ? senders.get(`${msg.group_id}:${msg.reply_to_message_id}`)
+        : undefined;
+      const reply = repliedTo ? ` replying to ${repliedTo}` : '';
+      const forward = msg.forward_origin_type
+        ? ` [forwarded from ${msg.forward_sender_name || 'unknown'}]`
+        : '';
+      const text = redactPromptText(msg.text, msg.group_id);
+      return `[${i + 1}] [${msg.timestamp}] ${user}${group ? ' (' + group + ')' : ''}${reply}${forward}: ${text}`;
+    })
+    .join('\n');
+  const conversation = history.length
+    ? `Previous conversation (the question may follow up on it):\n` +
+      history.map(turn => `Q: ${redactPromptText(turn.question)}\nA: ${redactPromptText(turn.answer)}`).join('\n') +
+      '\n\n'
+    : '';
+  return (
+    `Context (numbered messages with user and group info):\n${context}\n\n` +
+    conversation +
+    `Question: ${redactPromptText(userQuestion)}\n` +
+    `Answer (reference the users and group names above in your response, and cite the messages ` +
+    `that support each statement by their number in square brackets, e.g. [2] or [1, 3]):`
+  );
+}
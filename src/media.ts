@@ -0,0 +1,239 @@
+/**
+ * Media module for non-text messages
+ * Turns captions, attachments and polls into searchable conversation text
+ *
+ * - Captions are stored as the message text
+ * - Attachment metadata goes to the message_media table; attachments without
+ *   a caption are stored with a short description (e.g. "[voice note, 0:42]")
+ * - Polls are stored as their question and options
+ * - Text documents can have their contents appended to the message text by a
+ *   document extractor (DOCUMENT_EXTRACTION=true). A plain-text extractor is
+ *   built in; register more with registerDocumentExtractor.
+ */
+
+import { Api } from 'grammy';
+import type { Document, Message, Poll } from 'grammy/types';
+import { BotConfig, MessageMediaRecord } from './types.js';
+import { logger } from './logger.js';
+
+/** Longest document excerpt appended to a message */
+const MAX_EXTRACTED_CHARS = 8000;
+
+/**
+ * Attachment metadata before the message is stored
+ */
+export type MessageMedia = Omit<MessageMediaRecord, 'id' | 'conversation_id' | 'created_at'>;
+
+/**
+ * Document text extraction backend
+ */
+export interface DocumentExtractor {
+  /** Extractor identifier (e.g. 'plain-text') */
+  readonly name: string;
+  /**
+   * Check whether the extractor handles a document, before it is downloaded
+   * @param document Telegram document metadata
+   */
+  accepts(document: Document): boolean;
+  /**
+   * Extract the text of a downloaded document
+   * @param data File contents
+   * @param document Telegram document metadata
+   * @returns Extracted text, or null if nothing usable was found
+   */
+  extract(data: Buffer, document: Document): Promise<string | null>;
+}
+
+const extractors: DocumentExtractor[] = [];
+
+let extractionApi: Api | null = null;
+let botToken = '';
+let maxDocumentBytes = 0;
+
+/**
+ * Register a document extractor
+ * Extractors are tried in registration order; the first that accepts a document is used
+ * @param extractor Extractor to add
+ */
+export function registerDocumentExtractor(extractor: DocumentExtractor): void {
+  extractors.push(extractor);
+}
+
+/** MIME types handled by the built-in plain-text extractor */
+const PLAIN_TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/x-yaml'];
+
+/** File extensions handled by the built-in plain-text extractor */
+const PLAIN_TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|ya?ml|xml|ics|log)$/i;
+
+registerDocumentExtractor({
+  name: 'plain-text',
+  accepts: (document) =>
+    !!document.mime_type?.startsWith('text/') ||
+    PLAIN_TEXT_MIME_TYPES.includes(document.mime_type ?? '') ||
+    PLAIN_TEXT_EXTENSIONS.test(document.file_name ?? ''),
+  extract: async (data) => data.toString('utf8'),
+});
+
+/**
+ * Enable document extraction if configured
+ * @param config Bot configuration
+ */
+export function initDocumentExtraction(config: BotConfig): void {
+  if (!config.documentExtraction) {
+    extractionApi = null;
+    return;
+  }
+  extractionApi = new Api(config.telegramBotToken);
+  botToken = config.telegramBotToken;
+  maxDocumentBytes = config.documentExtractionMaxBytes;
+  logger.info(
+    `✅ Document extraction enabled (${extractors.map((e) => e.name).join(', ')}; max ${maxDocumentBytes} bytes)`
+  );
+}
+
+/**
+ * Download a document and extract its text
+ * @param document Telegram document metadata
+ * @returns Extracted text (trimmed and truncated), or null if disabled, unsupported, too large or failed
+ */
+export async function extractDocumentText(document: Document): Promise<string | null> {
+  if (!extractionApi) {
+    return null;
+  }
+  if (document.file_size && document.file_size > maxDocumentBytes) {
+    logger.debug(`[MEDIA] Document ${document.file_name} too large to extract (${document.file_size} bytes)`);
+    return null;
+  }
+
+  const extractor = extractors.find((e) => e.accepts(document));
+  if (!extractor) {
+    return null;
+  }
+
+  try {
+    const file = await extractionApi.getFile(document.file_id);
+    if (!file.file_path) {
+      return null;
+    }
+    const response = await fetch(`https://api.telegram.org/file/bot${botToken}/${file.file_path}`);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    const data = Buffer.from(await response.arrayBuffer());
+    const text = (await extractor.extract(data, document))?.trim();
+    if (!text) {
+      return null;
+    }
+    logger.debug(`[MEDIA] Extracted ${text.length} characters from ${document.file_name} (${extractor.name})`);
+    return text.slice(0, MAX_EXTRACTED_CHARS);
+  } catch (error) {
+    logger.warn(`[MEDIA] Could not extract text from ${document.file_name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Read attachment metadata from a message
+ * Stickers, locations and other kinds without searchable content are ignored
+ * @param message Raw Telegram message
+ * @returns Attachment metadata, or undefined if the message has none
+ */
+export function toMessageMedia(message: Message): MessageMedia | undefined {
+  if (message.photo?.length) {
+    // Sizes are ordered smallest first
+    const photo = message.photo[message.photo.length - 1];
+    return {
+      media_type: 'photo',
+      file_id: photo.file_id,
+      file_unique_id: photo.file_unique_id,
+      file_size: photo.file_size ?? null,
+      width: photo.width,
+      height: photo.height,
+    };
+  }
+
+  // Animations also carry a document field, so check them first
+  const file =
+    (message.animation && { type: 'animation' as const, ...message.animation }) ||
+    (message.video && { type: 'video' as const, ...message.video }) ||
+    (message.audio && { type: 'audio' as const, ...message.audio }) ||
+    (message.voice && { type: 'voice' as const, ...message.voice }) ||
+    (message.video_note && { type: 'video_note' as const, ...message.video_note }) ||
+    (message.document && { type: 'document' as const, ...message.document });
+  if (file) {
+    return {
+      media_type: file.type,
+      file_id: file.file_id,
+      file_unique_id: file.file_unique_id,
+      file_name: 'file_name' in file ? file.file_name ?? null : null,
+      mime_type: 'mime_type' in file ? file.mime_type ?? null : null,
+      file_size: file.file_size ?? null,
+      duration: 'duration' in file ? file.duration : null,
+      width: 'width' in file ? file.width : 'length' in file ? file.length : null,
+      height: 'height' in file ? file.height : 'length' in file ? file.length : null,
+    };
+  }
+
+  if (message.poll) {
+    return { media_type: 'poll' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Format a duration in seconds as m:ss
+ * @private
+ */
+function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Short description of an attachment, used as text when there is no caption
+ * @param media Attachment metadata
+ * @returns Description such as "[document: agenda.pdf]"
+ */
+export function describeMedia(media: MessageMedia): string {
+  const label = media.media_type === 'voice' ? 'voice note' : media.media_type.replace('_', ' ');
+  const details = [media.file_name, media.duration ? formatDuration(media.duration) : null].filter(Boolean);
+  return details.length ? `[${label}: ${details.join(', ')}]` : `[${label}]`;
+}
+
+/**
+ * Format a poll as text
+ * @param poll Telegram poll
+ * @returns Question followed by one option per line
+ */
+export function pollText(poll: Poll): string {
+  return [`📊 Poll: ${poll.question}`, ...poll.options.map((option) => `• ${option.text}`)].join('\n');
+}
+
+/**
+ * Build the stored text of a message
+ * Text or caption first, then poll contents or the attachment description,
+ * then any extracted document text
+ * @param message Raw Telegram message
+ * @param media Attachment metadata from toMessageMedia
+ * @param extractedText Document contents from extractDocumentText
+ * @returns Text to store, or undefined if the message has nothing to store
+ */
+export function messageText(
+  message: Message,
+  media?: MessageMedia,
+  extractedText?: string | null
+): string | undefined {
+  const parts: string[] = [];
+  const body = message.text ?? message.caption;
+  if (message.poll) {
+    parts.push(pollText(message.poll));
+  } else if (body) {
+    parts.push(body);
+  } else if (media) {
+    parts.push(describeMedia(media));
+  }
+  if (extractedText) {
+    parts.push(`${media?.file_name ?? 'Document'}:\n${extractedText}`);
+  }
+  return parts.length ? parts.join('\n\n') : undefined;
+}
@@ -0,0 +1,301 @@
+/**
+ * Data subject request module
+ * Builds the /mydata export of everything stored about a user, erases it on
+ * request (/optout → "Stop and erase everything") and scopes the Clear Chats
+ * menu to one group or a date range
+ *
+ * The export is a JSON file with every table that references the user and
+ * a CSV file of their messages for spreadsheets. Exports and erasures are
+ * logged in the data_requests table with the row counts involved.
+ */
+
+import { InlineKeyboard } from 'grammy';
+import { MessageScope, UserDataExport, UserMessageGroup } from './types.js';
+import { addUserOptOut, eraseUserData, fetchUserData, insertDataRequest } from './supabase.js';
+import { forgetUser } from './directory.js';
+import { escapeHtml } from './search.js';
+import { logger } from './logger.js';
+
+/** Columns of the messages CSV, in order */
+const CSV_COLUMNS = [
+  'id',
+  'group_id',
+  'group_title',
+  'message_id',
+  'timestamp',
+  'edited_at',
+  'text',
+  'reply_to_message_id',
+  'message_thread_id',
+  'forward_origin_type',
+  'forward_sender_name',
+  'media_type',
+  'file_name',
+  'revisions',
+  'events',
+  'embedding_model',
+];
+
+/** Callback data prefix of the Clear Chats group buttons, followed by a group ID or "all" */
+export const CLEAR_SCOPE_CALLBACK = 'clear_scope:';
+
+/** Callback data prefix of the date range buttons, followed by "<group>:<range code>" */
+export const CLEAR_RANGE_CALLBACK = 'clear_range:';
+
+/** Callback data prefix of the delete button, followed by an encoded scope */
+export const CONFIRM_CLEAR_CALLBACK = 'confirm_clear:';
+
+/** Groups listed in the Clear Chats menu */
+const MAX_CLEAR_GROUPS = 20;
+
+/** Longest group title shown on a button */
+const BUTTON_TITLE_LENGTH = 30;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/**
+ * Date range presets of the Clear Chats menu
+ * The scope is resolved to absolute times when the confirmation is shown, so
+ * the count the user confirms is the count that gets deleted
+ */
+const CLEAR_RANGES: { code: string; label: string; resolve: (now: number) => Omit<MessageScope, 'groupId'> }[] = [
+  { code: 'all', label: 'Everything', resolve: () => ({}) },
+  { code: '1d', label: 'Last 24 hours', resolve: (now) => ({ since: new Date(now - DAY_MS) }) },
+  { code: '7d', label: 'Last 7 days', resolve: (now) => ({ since: new Date(now - 7 * DAY_MS) }) },
+  { code: '30d', label: 'Last 30 days', resolve: (now) => ({ since: new Date(now - 30 * DAY_MS) }) },
+  { code: 'old30', label: 'Older than 30 days', resolve: (now) => ({ until: new Date(now - 30 * DAY_MS) }) },
+];
+
+/**
+ * Files of a data export
+ */
+export interface UserDataArchive {
+  /** Full export as pretty-printed JSON */
+  json: string;
+  /** The user's messages as CSV */
+  csv: string;
+  /** Row counts per exported section */
+  counts: Record<string, number>;
+}
+
+/**
+ * Quote a value for CSV (RFC 4180)
+ * Text that spreadsheets would run as a formula is prefixed with a quote
+ * @param value Cell value
+ * @returns CSV field
+ * @private
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format exported messages as CSV
+ * @param conversations Exported conversation rows (with joined chat, media, revisions and events)
+ * @returns CSV with a header row, CRLF line endings
+ */
+export function conversationsCsv(conversations: Record<string, unknown>[]): string {
+  const rows = conversations.map((row) => {
+    const chat = row.chat as { title?: string | null } | null;
+    const media = row.media as { media_type?: string; file_name?: string | null } | null;
+    const cells: Record<string, unknown> = {
+      ...row,
+      group_title: chat?.title,
+      media_type: media?.media_type,
+      file_name: media?.file_name,
+      revisions: (row.revisions as unknown[] | null)?.length || 0,
+      events: (row.events as { name: string }[] | null)?.map((event) => event.name).join('; '),
+    };
+    return CSV_COLUMNS.map((column) => csvField(cells[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Count the rows in each section of an export
+ * @param data User data export
+ * @returns Counts keyed by section
+ * @private
+ */
+function countSections(data: UserDataExport): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) counts[key] = value.length;
+    else if (value && typeof value === 'object') counts[key] = 1;
+  }
+  return counts;
+}
+
+/**
+ * Export everything stored about a user and log the request
+ * @param userId Telegram user ID of the requester
+ * @returns JSON and CSV files, or null if the data could not be collected
+ */
+export async function exportUserData(userId: number): Promise<UserDataArchive | null> {
+  const data = await fetchUserData(userId);
+  if (!data) {
+    return null;
+  }
+
+  const counts = countSections(data);
+  if (!(await insertDataRequest({ user_id: userId, request_type: 'export', details: counts }))) {
+    logger.warn(`[PRIVACY] Export for user ${userId} could not be logged`);
+  }
+  logger.info(`[PRIVACY] Data export for user ${userId}:`, counts);
+
+  return {
+    json: JSON.stringify(data, null, 2),
+    csv: conversationsCsv(data.conversations),
+    counts,
+  };
+}
+
+/**
+ * Opt a user out and delete everything stored about them
+ * The opt-out is recorded first so no new messages are stored during erasure
+ * @param userId Telegram user ID of the requester
+ * @returns Rows removed per table, or null if opting out or erasing failed
+ */
+export async function optOutAndErase(userId: number): Promise<Record<string, number> | null> {
+  if (!(await addUserOptOut(userId))) {
+    return null;
+  }
+  const counts = await eraseUserData(userId);
+  if (!counts) {
+    return null;
+  }
+  forgetUser(userId);
+
+  if (!(await insertDataRequest({ user_id: userId, request_type: 'erase', details: counts }))) {
+    logger.warn(`[PRIVACY] Erasure for user ${userId} could not be logged`);
+  }
+  return counts;
+}
+
+/**
+ * Encode a group selection for callback data
+ * @param groupId Group ID, or undefined for all groups
+ * @returns Base-36 group ID or "all"
+ * @private
+ */
+function encodeGroup(groupId: number | undefined): string {
+  return groupId === undefined ? 'all' : groupId.toString(36);
+}
+
+/**
+ * Decode a group selection from callback data
+ * @param value Base-36 group ID or "all"
+ * @returns Group ID, undefined for all groups, or null if malformed
+ */
+export function parseClearGroup(value: string): number | undefined | null {
+  if (value === 'all') return undefined;
+  const groupId = parseInt(value, 36);
+  return Number.isSafeInteger(groupId) && groupId.toString(36) === value ? groupId : null;
+}
+
+/**
+ * Resolve a date range preset to a scope
+ * @param groupId Group ID, or undefined for all groups
+ * @param code Range code from CLEAR_RANGES
+ * @param now Current time in ms
+ * @returns Scope with absolute times, or null for an unknown code
+ */
+export function resolveClearRange(groupId: number | undefined, code: string, now = Date.now()): MessageScope | null {
+  const range = CLEAR_RANGES.find((candidate) => candidate.code === code);
+  return range ? { groupId, ...range.resolve(now) } : null;
+}
+
+/**
+ * Encode a scope as the data of the delete button
+ * Times are stored as base-36 epoch seconds to stay under Telegram's 64-byte limit
+ * @param scope Scope to clear
+ * @returns Callback data
+ */
+export function encodeClearScope(scope: MessageScope): string {
+  const time = (date?: Date) => (date ? Math.floor(date.getTime() / 1000).toString(36) : '');
+  return `${CONFIRM_CLEAR_CALLBACK}${encodeGroup(scope.groupId)}:${time(scope.since)}:${time(scope.until)}`;
+}
+
+/**
+ * Decode the data of a delete button
+ * @param data Callback data starting with CONFIRM_CLEAR_CALLBACK
+ * @returns Scope to clear, or null if malformed
+ */
+export function parseClearScope(data: string): MessageScope | null {
+  const [group, since, until, ...rest] = data.slice(CONFIRM_CLEAR_CALLBACK.length).split(':');
+  const groupId = parseClearGroup(group);
+  if (groupId === null || since === undefined || until === undefined || rest.length) {
+    return null;
+  }
+  const time = (value: string) => (value ? new Date(parseInt(value, 36) * 1000) : undefined);
+  const scope: MessageScope = { groupId, since: time(since), until: time(until) };
+  if ([scope.since, scope.until].some((date) => date && isNaN(date.getTime()))) {
+    return null;
+  }
+  return scope;
+}
+
+/**
+ * Name a group for menus
+ * @param groupId Group ID
+ * @param groups The user's groups, for titles
+ * @returns Title, @username or "Group <id>" (plain text)
+ * @private
+ */
+function groupName(groupId: number, groups: UserMessageGroup[]): string {
+  const group = groups.find((candidate) => candidate.group_id === groupId);
+  return group?.title || (group?.username ? `@${group.username}` : `Group ${groupId}`);
+}
+
+/**
+ * Describe a scope for the confirmation message
+ * @param scope Scope to clear
+ * @param groups The user's groups, for titles
+ * @returns HTML fragment such as `in <b>Dev Chat</b> since 2026-10-12 14:00 UTC`
+ */
+export function describeClearScope(scope: MessageScope, groups: UserMessageGroup[]): string {
+  const format = (date: Date) => `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  const parts = [
+    scope.groupId === undefined
+      ? 'in <b>all groups</b>'
+      : `in <b>${escapeHtml(groupName(scope.groupId, groups))}</b>`,
+  ];
+  if (scope.since) parts.push(`since ${format(scope.since)}`);
+  if (scope.until) parts.push(`before ${format(scope.until)}`);
+  return parts.join(' ');
+}
+
+/**
+ * Build the group buttons of the Clear Chats menu
+ * @param groups The user's groups, most messages first
+ * @returns Keyboard with one button per group, "All groups" and Cancel
+ */
+export function clearGroupsKeyboard(groups: UserMessageGroup[]): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (const group of groups.slice(0, MAX_CLEAR_GROUPS)) {
+    const name = groupName(group.group_id, groups);
+    const title = name.length > BUTTON_TITLE_LENGTH ? `${name.slice(0, BUTTON_TITLE_LENGTH)}…` : name;
+    keyboard.text(`💬 ${title} (${group.message_count})`, `${CLEAR_SCOPE_CALLBACK}${encodeGroup(group.group_id)}`).row();
+  }
+  const total = groups.reduce((sum, group) => sum + group.message_count, 0);
+  return keyboard
+    .text(`🗂 All groups (${total})`, `${CLEAR_SCOPE_CALLBACK}all`)
+    .row()
+    .text('❌ Cancel', 'cancel');
+}
+
+/**
+ * Build the date range buttons for a group selection
+ * @param groupId Group ID, or undefined for all groups
+ * @returns Keyboard with one button per range preset, Back and Cancel
+ */
+export function clearRangeKeyboard(groupId: number | undefined): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (const range of CLEAR_RANGES) {
+    keyboard.text(range.label, `${CLEAR_RANGE_CALLBACK}${encodeGroup(groupId)}:${range.code}`).row();
+  }
+  return keyboard.text('⬅️ Back', 'clear_chats').text('❌ Cancel', 'cancel');
+}
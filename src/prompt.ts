@@ -0,0 +1,160 @@
+/**
+ * Prompt assembly module
+ * Fits retrieved context messages into a token budget before formatting
+ * them with buildOpenAIPrompt
+ *
+ * - Tokens are estimated at ~4 characters per token (no tokenizer dependency)
+ * - Messages longer than LLM_MAX_MESSAGE_TOKENS are truncated
+ * - Candidates are ranked by a mix of retrieval relevance and recency and
+ *   added best first until LLM_CONTEXT_TOKENS is used up
+ * - Included messages are shown oldest first so the prompt reads like a transcript
+ */
+
+import { AskSessionTurn, BotConfig, ConversationRecord } from './types.js';
+import { buildOpenAIPrompt } from './llm.js';
+import { logger } from './logger.js';
+
+/** Rough characters-per-token ratio for English text */
+const CHARS_PER_TOKEN = 4;
+
+/** Tokens per message for the timestamp, author and group prefix */
+const MESSAGE_OVERHEAD_TOKENS = 25;
+
+/** Weight of the retrieval rank in the priority score */
+const RELEVANCE_WEIGHT = 0.7;
+
+/** Weight of message age in the priority score */
+const RECENCY_WEIGHT = 0.3;
+
+/** Age at which a message's recency score halves */
+const RECENCY_HALF_LIFE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Appended to truncated message text */
+const TRUNCATION_MARKER = ' … [truncated]';
+
+let contextTokens = 3000;
+let maxMessageTokens = 300;
+
+/**
+ * Prompt ready to send, with what went into it
+ */
+export interface AssembledPrompt {
+  /** Formatted prompt */
+  prompt: string;
+  /** Included messages in prompt (chronological) order, as numbered in the prompt */
+  messages: ConversationRecord[];
+  /** Number of candidate messages before budgeting */
+  candidates: number;
+  /** Number of included messages whose text was truncated */
+  truncated: number;
+  /** Estimated prompt size in tokens */
+  tokens: number;
+}
+
+/**
+ * Configure the prompt token budget
+ * @param config Bot configuration
+ */
+export function initPromptBudget(config: BotConfig): void {
+  contextTokens = config.llmContextTokens;
+  maxMessageTokens = config.llmMaxMessageTokens;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ * @param text Text to measure
+ * @returns Approximate token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Score a candidate by retrieval rank and age
+ * @param rank Position in the retrieval results (0 = most relevant)
+ * @param count Number of candidates
+ * @param timestamp Message time (ISO)
+ * @param now Current time in ms
+ * @returns Score between 0 and 1, higher first
+ * @private
+ */
+function priorityScore(rank: number, count: number, timestamp: string, now: number): number {
+  const relevance = 1 - rank / count;
+  const age = Math.max(0, now - new Date(timestamp).getTime());
+  const recency = Math.pow(0.5, age / RECENCY_HALF_LIFE_MS);
+  return RELEVANCE_WEIGHT * relevance + RECENCY_WEIGHT * recency;
+}
+
+/**
+ * Shorten a message that exceeds the per-message token limit
+ * @param record Context message
+ * @returns The record, or a copy with truncated text
+ * @private
+ */
+function truncateMessage(record: ConversationRecord): ConversationRecord {
+  if (estimateTokens(record.text) <= maxMessageTokens) {
+    return record;
+  }
+  return { ...record, text: record.text.slice(0, maxMessageTokens * CHARS_PER_TOKEN) + TRUNCATION_MARKER };
+}
+
+/**
+ * Select, truncate and format context messages within the token budget
+ * Session history may use up to half the budget (oldest turns are dropped
+ * first); context messages fill the rest
+ * @param candidates Retrieved messages, most relevant first
+ * @param question The user's question
+ * @param history Previous private-chat turns, oldest first
+ * @returns Prompt and the messages it contains
+ */
+export function assemblePrompt(
+  candidates: ConversationRecord[],
+  question: string,
+  history: AskSessionTurn[] = []
+): AssembledPrompt {
+  const now = Date.now();
+  const ranked = candidates
+    .map((record, rank) => ({ record, score: priorityScore(rank, candidates.length, record.timestamp, now) }))
+    .sort((a, b) => b.score - a.score);
+
+  let turns = history;
+  while (turns.length && estimateTokens(buildOpenAIPrompt([], question, turns)) > contextTokens / 2) {
+    turns = turns.slice(1);
+  }
+
+  let remaining = contextTokens - estimateTokens(buildOpenAIPrompt([], question, turns));
+  const selected: ConversationRecord[] = [];
+  let truncated = 0;
+
+  for (const { record } of ranked) {
+    const message = truncateMessage(record);
+    const cost = estimateTokens(message.text) + MESSAGE_OVERHEAD_TOKENS;
+    // Keep going: a shorter message further down may still fit
+    if (cost > remaining) continue;
+    remaining -= cost;
+    selected.push(message);
+    if (message !== record) truncated++;
+  }
+
+  const messages = selected.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const prompt = buildOpenAIPrompt(messages, question, turns);
+  const tokens = estimateTokens(prompt);
+
+  logger.debug(
+    `[PROMPT] Included ${messages.length} of ${candidates.length} message(s), ${truncated} truncated, ` +
+      `${turns.length} session turn(s), ~${tokens}/${contextTokens} tokens`
+  );
+  return { prompt, messages, candidates: candidates.length, truncated, tokens };
+}
+
+/**
+ * Describe what an answer was based on, for the answer footer
+ * @param assembled Assembled prompt
+ * @returns Footer text such as "Based on 12 of 30 retrieved messages (2 shortened)"
+ */
+export function describePromptContext(assembled: AssembledPrompt): string {
+  const shortened = assembled.truncated ? ` (${assembled.truncated} shortened)` : '';
+  return `Based on ${assembled.messages.length} of ${assembled.candidates} retrieved messages${shortened}`;
+}
@@ -0,0 +1,407 @@
+/**
+ * Personal data redaction module
+ * Finds emails, phone numbers, card numbers, wallet seed phrases (12-24 word
+ * mnemonics) and hex private keys in message text and removes them before the
+ * text is stored (ingestion) or sent to a model (buildOpenAIPrompt)
+ *
+ * Each group's policy decides what happens to a message with personal data:
+ * - redact: the value is replaced with a placeholder such as [email]
+ * - hash: the value is replaced with a keyed hash such as [email:3f9a1c2b7d40],
+ *   so repeated values stay recognisable without being readable
+ * - drop: the message is not stored
+ * Groups without a policy use REDACTION_MODE. Prompts are always redacted or
+ * hashed; messages of drop groups are withheld from prompts. Hashing needs
+ * its own key (REDACTION_HASH_KEY); without one, hash groups are redacted.
+ *
+ * Detection is pattern based, so it errs on both sides: phone numbers need a
+ * leading + or 10+ digits with separators, cards must pass the Luhn check,
+ * mnemonics are runs of 12 or more lowercase words that are all in the
+ * BIP-39 English word list, and 0x-prefixed hex (transaction hashes) is a
+ * private key only when labelled as one.
+ * Ingestion counts what was found per group in redaction_counts.
+ */
+
+import { createHmac } from 'crypto';
+import { wordlist as BIP39_ENGLISH } from '@scure/bip39/wordlists/english.js';
+import { BotConfig, RedactionCount, RedactionDetector, RedactionMode } from './types.js';
+import { getRedactionPolicies, recordRedactions, setRedactionPolicy } from './supabase.js';
+import { logger } from './logger.js';
+
+/** How long the cached group policies are used before reloading */
+const POLICY_TTL_MS = 5 * 60_000;
+
+/** Hex characters of a hashed value */
+const HASH_LENGTH = 12;
+
+/** Prompt text of messages from groups that drop personal data */
+const WITHHELD_TEXT = '[message withheld: contains personal data]';
+
+/** Words of the BIP-39 English list, which wallet seed phrases are made of */
+const BIP39_WORDS = new Set(BIP39_ENGLISH);
+
+/** Shortest seed phrase (BIP-39 phrases have 12, 15, 18, 21 or 24 words) */
+const MIN_MNEMONIC_WORDS = 12;
+
+/** Plain-text names of the detectors */
+export const REDACTION_DETECTOR_LABELS: Record<RedactionDetector, string> = {
+  email: 'Emails',
+  phone: 'Phone numbers',
+  card: 'Card numbers',
+  mnemonic: 'Seed phrases',
+  private_key: 'Private keys',
+};
+
+/** What happens to personal data in each mode, completing "Personal data ..." */
+export const REDACTION_MODE_DESCRIPTIONS: Record<RedactionMode, string> = {
+  redact: 'is replaced with placeholders such as [email]',
+  hash: 'is replaced with a keyed hash, so repeated values stay recognisable',
+  drop: 'makes the bot skip the message: it is not stored',
+};
+
+/**
+ * A possible match of a detector
+ * @private
+ */
+interface Candidate {
+  /** Position in the text */
+  index: number;
+  /** Matched text */
+  value: string;
+}
+
+/**
+ * A detector: what to look for and how to confirm a candidate
+ * @private
+ */
+interface Detector {
+  name: RedactionDetector;
+  /** Candidate pattern (global), unless find is given */
+  pattern?: RegExp;
+  /** Find candidates where a single pattern cannot express the rule */
+  find?: (text: string) => Candidate[];
+  /** Reject candidates the pattern over-matches */
+  validate?: (value: string) => boolean;
+  /** Canonical form used for hashing */
+  normalize?: (value: string) => string;
+}
+
+/**
+ * Result of redacting one text
+ */
+export interface RedactionResult {
+  /** Text with personal data replaced (unchanged if nothing was found) */
+  text: string;
+  /** Values found per detector */
+  matches: Partial<Record<RedactionDetector, number>>;
+  /** Total values found */
+  found: number;
+  /** True if the policy is drop and personal data was found */
+  dropped: boolean;
+}
+
+/**
+ * Check a card number candidate with the Luhn checksum
+ * @param digits Card number digits
+ * @returns True if the checksum is valid
+ * @private
+ */
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Find runs of MIN_MNEMONIC_WORDS or more BIP-39 words separated only by whitespace
+ * Words around the run that are not in the list are not part of the match
+ * @param text Text to scan
+ * @returns Runs found
+ * @private
+ */
+function findMnemonics(text: string): Candidate[] {
+  const runs: Candidate[] = [];
+  let run: RegExpMatchArray[] = [];
+
+  const flush = () => {
+    if (run.length >= MIN_MNEMONIC_WORDS) {
+      const first = run[0];
+      const last = run[run.length - 1];
+      runs.push({ index: first.index!, value: text.slice(first.index, last.index! + last[0].length) });
+    }
+    run = [];
+  };
+
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const previous = run[run.length - 1];
+    if (previous && !/^\s+$/.test(text.slice(previous.index! + previous[0].length, word.index))) {
+      flush();
+    }
+    if (BIP39_WORDS.has(word[0])) {
+      run.push(word);
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return runs;
+}
+
+/**
+ * Detectors in priority order; a span claimed by an earlier detector is not
+ * matched again (a private key is not also a phone number)
+ * @private
+ */
+const DETECTORS: Detector[] = [
+  {
+    // 0x-prefixed 64-hex values are usually transaction or block hashes, so they
+    // only count as keys right after "private key", "secret key" or "pk"
+    name: 'private_key',
+    pattern: /(?<![0-9A-Za-z])(?:(?<=\b(?:(?:private|priv|secret)[ _-]?key|pk)\b.{0,20})0x)?[0-9a-fA-F]{64}(?![0-9A-Za-z])/gi,
+    normalize: (value) => value.toLowerCase().replace(/^0x/, ''),
+  },
+  {
+    name: 'mnemonic',
+    find: findMnemonics,
+    normalize: (value) => value.split(/\s+/).join(' '),
+  },
+  {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    normalize: (value) => value.toLowerCase(),
+  },
+  {
+    name: 'card',
+    pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+    validate: (value) => luhnValid(value.replace(/\D/g, '')),
+    normalize: (value) => value.replace(/\D/g, ''),
+  },
+  {
+    name: 'phone',
+    pattern: /(?<![\w+-])\+?\(?\d[\d ().-]{6,}\d(?!\w)/g,
+    validate: (value) => {
+      const digits = value.replace(/\D/g, '').length;
+      // Dates such as 2026-10-19 or 19.10.2026
+      if (/^\d{4}-\d{1,2}-\d{1,2}\b|^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}\b/.test(value)) return false;
+      // Without a country code, only formatted numbers (IDs and timestamps are plain digit runs)
+      return digits <= 15 && (value.startsWith('+') ? digits >= 8 : digits >= 10 && /\D/.test(value));
+    },
+    normalize: (value) => value.replace(/[^\d+]/g, ''),
+  },
+];
+
+let enabled = true;
+let activeDetectors: Detector[] = DETECTORS;
+let defaultMode: RedactionMode = 'redact';
+let hashKey = '';
+
+let policies = new Map<number, RedactionMode>();
+let policiesLoadedAt = 0;
+let policiesLoading: Promise<void> | null = null;
+
+/**
+ * Initialize detectors, the default mode and the hash key
+ * @param config Bot configuration
+ */
+export function initRedaction(config: BotConfig): void {
+  enabled = config.redaction;
+  activeDetectors = DETECTORS.filter((detector) => config.redactionDetectors.includes(detector.name));
+  defaultMode = config.redactionMode;
+  hashKey = config.redactionHashKey ?? '';
+  policiesLoadedAt = 0;
+  logger.info(
+    enabled
+      ? `✅ Redaction enabled (${config.redactionMode}; ${activeDetectors.map((d) => d.name).join(', ')})`
+      : '⚠️ Redaction disabled'
+  );
+  if (enabled && !hashKey) {
+    logger.warn('⚠️ REDACTION_HASH_KEY not set: hash mode is unavailable and groups set to hash are redacted');
+  }
+}
+
+/**
+ * Check whether values can be hashed (REDACTION_HASH_KEY is set)
+ * @returns True if hash mode is available
+ */
+export function isHashModeAvailable(): boolean {
+  return !!hashKey;
+}
+
+/**
+ * Check whether the redaction pipeline is on
+ * @returns True if personal data is redacted
+ */
+export function isRedactionEnabled(): boolean {
+  return enabled && activeDetectors.length > 0;
+}
+
+/**
+ * Replace personal data in a text
+ * @param text Text to scan
+ * @param mode What to do with personal data
+ * @returns Redacted text and what was found
+ */
+export function redactText(text: string, mode: RedactionMode): RedactionResult {
+  if (mode === 'hash' && !hashKey) {
+    mode = 'redact';
+  }
+  const result: RedactionResult = { text, matches: {}, found: 0, dropped: false };
+  if (!isRedactionEnabled() || !text) {
+    return result;
+  }
+
+  const spans: { start: number; end: number; replacement: string }[] = [];
+  for (const detector of activeDetectors) {
+    const candidates = detector.find
+      ? detector.find(text)
+      : [...text.matchAll(detector.pattern!)].map((match) => ({ index: match.index ?? 0, value: match[0] }));
+    for (const candidate of candidates) {
+      const start = candidate.index;
+      const end = start + candidate.value.length;
+      if (spans.some((span) => start < span.end && end > span.start)) continue;
+      if (detector.validate && !detector.validate(candidate.value)) continue;
+
+      const value = detector.normalize ? detector.normalize(candidate.value) : candidate.value;
+      const replacement = mode === 'hash'
+        ? `[${detector.name}:${createHmac('sha256', hashKey).update(value).digest('hex').slice(0, HASH_LENGTH)}]`
+        : `[${detector.name}]`;
+      spans.push({ start, end, replacement });
+      result.matches[detector.name] = (result.matches[detector.name] ?? 0) + 1;
+      result.found++;
+    }
+  }
+  if (!result.found) {
+    return result;
+  }
+
+  spans.sort((a, b) => b.start - a.start);
+  for (const span of spans) {
+    result.text = result.text.slice(0, span.start) + span.replacement + result.text.slice(span.end);
+  }
+  result.dropped = mode === 'drop';
+  return result;
+}
+
+/**
+ * Reload the group policies if the cache is stale
+ * Keeps the previous policies if loading fails
+ * @private
+ */
+async function refreshPolicies(): Promise<void> {
+  if (Date.now() - policiesLoadedAt < POLICY_TTL_MS) {
+    return;
+  }
+  policiesLoading ??= getRedactionPolicies()
+    .then((loaded) => {
+      if (loaded) {
+        policies = loaded;
+        policiesLoadedAt = Date.now();
+      }
+    })
+    .finally(() => {
+      policiesLoading = null;
+    });
+  await policiesLoading;
+}
+
+/**
+ * Get a group's redaction mode from the cache without waiting for a reload
+ * A hash policy is reported as redact while hash mode is unavailable
+ * @param groupId Group/channel ID, or omitted for the default
+ * @returns The group's mode, or the default
+ */
+export function cachedRedactionMode(groupId?: number): RedactionMode {
+  const mode = (groupId === undefined ? undefined : policies.get(groupId)) ?? defaultMode;
+  return mode === 'hash' && !hashKey ? 'redact' : mode;
+}
+
+/**
+ * Get a group's redaction mode
+ * @param groupId Group/channel ID, or omitted for the default
+ * @returns The group's mode, or the default
+ */
+export async function getRedactionMode(groupId?: number): Promise<RedactionMode> {
+  await refreshPolicies();
+  return cachedRedactionMode(groupId);
+}
+
+/**
+ * Set a group's redaction mode
+ * @param groupId Group/channel ID
+ * @param mode Redaction mode, or null for the default
+ * @returns True on success
+ */
+export async function setGroupRedactionMode(groupId: number, mode: RedactionMode | null): Promise<boolean> {
+  if (!(await setRedactionPolicy(groupId, mode))) {
+    return false;
+  }
+  if (mode) policies.set(groupId, mode);
+  else policies.delete(groupId);
+  return true;
+}
+
+/**
+ * Parse the arguments of a /redaction command
+ * Accepts: (none), redact, hash, drop and default
+ * @param text Message text
+ * @returns The mode to set (null for the default), "status", or undefined if invalid
+ */
+export function parseRedactionCommand(text: string): RedactionMode | null | 'status' | undefined {
+  const arg = text.replace(/^\/redaction(?:@\w+)?/i, '').trim().toLowerCase();
+  if (!arg) return 'status';
+  if (arg === 'default') return null;
+  return arg === 'redact' || arg === 'hash' || arg === 'drop' ? arg : undefined;
+}
+
+/**
+ * Redact an incoming message with its group's policy and count the findings
+ * A failure to record the counts is logged; the text is still redacted
+ * @param groupId Group/channel ID of the message
+ * @param text Message text
+ * @returns Redacted text and what was found
+ */
+export async function redactMessageText(groupId: number, text: string): Promise<RedactionResult> {
+  if (!isRedactionEnabled()) {
+    return { text, matches: {}, found: 0, dropped: false };
+  }
+  const result = redactText(text, await getRedactionMode(groupId));
+  if (result.found) {
+    logger.debug(`[REDACT] Group ${groupId}${result.dropped ? ' (message dropped)' : ''}:`, result.matches);
+    if (!(await recordRedactions(groupId, result.matches, result.dropped))) {
+      logger.warn(`[REDACT] Counts for group ${groupId} were not recorded`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Redact text for a prompt
+ * Messages of groups that drop personal data are withheld rather than
+ * removed, so the message numbering the model cites stays intact
+ * @param text Message, question or answer text
+ * @param groupId Group/channel ID of a context message (omit for the asker's own text)
+ * @returns Text safe to send to the model
+ */
+export function redactPromptText(text: string, groupId?: number): string {
+  const mode = groupId === undefined ? 'redact' : cachedRedactionMode(groupId);
+  const result = redactText(text, mode);
+  return result.dropped ? WITHHELD_TEXT : result.text;
+}
+
+/**
+ * Format a group's redaction counts
+ * @param counts Counts per detector
+ * @returns Lines such as "Emails: 12 in 9 message(s)"
+ */
+export function formatRedactionCounts(counts: RedactionCount[]): string[] {
+  return counts.map((count) => {
+    const dropped = count.dropped ? `, ${count.dropped} dropped` : '';
+    return `${REDACTION_DETECTOR_LABELS[count.detector] ?? count.detector}: ${count.matches} in ${count.messages} message(s)${dropped}`;
+  });
+}
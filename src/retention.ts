@@ -0,0 +1,189 @@
+/**
+ * Data retention module
+ * Expires stored messages and their embeddings after the period set in the
+ * retention_policies table
+ *
+ * - The global default (group_id 0) is set by bot admins with /retention in
+ *   private chat; group admins may override it per group
+ * - The purge runs in-process every hour in polling/webhook mode and through
+ *   /api/retention for serverless deployments
+ * - Expired messages are deleted together with their revisions, media, events
+ *   and alerts; expired embeddings are cleared and the message is kept, marked
+ *   so it is not embedded again (embedding worker, npm run reembed)
+ */
+
+import { RetentionPolicy } from './types.js';
+import { getRetentionPolicy, purgeExpiredData } from './supabase.js';
+import { logger } from './logger.js';
+
+/** retention_policies.group_id of the global default */
+export const GLOBAL_RETENTION_ID = 0;
+
+/** Longest retention period accepted, in days */
+export const MAX_RETENTION_DAYS = 36500;
+
+/** How often the in-process purge runs */
+const PURGE_INTERVAL_MS = 60 * 60_000;
+
+/** Messages deleted (and vectors cleared) per database call */
+const PURGE_BATCH_SIZE = 1000;
+
+/** Batches per run, so one run cannot hold the database indefinitely */
+const MAX_PURGE_BATCHES = 50;
+
+/** What a retention setting applies to */
+export type RetentionTarget = 'messages' | 'vectors';
+
+/**
+ * A parsed /retention command
+ * days: 0 keeps data indefinitely, null falls back to the global default
+ */
+export type RetentionCommand =
+  | { action: 'status' }
+  | { action: 'reset' }
+  | { action: 'set'; target: RetentionTarget; days: number | null };
+
+/**
+ * Retention that applies to a group after falling back to the global default
+ */
+export interface EffectiveRetention {
+  /** Days messages are kept (0 = indefinitely) */
+  messageDays: number;
+  /** Days embeddings are kept (0 = indefinitely) */
+  vectorDays: number;
+  /** Whether the group overrides the global default */
+  overridden: boolean;
+}
+
+/**
+ * Outcome of one purge run
+ */
+export interface PurgeResult {
+  /** Messages deleted */
+  messages: number;
+  /** Embeddings cleared */
+  vectors: number;
+}
+
+/**
+ * Parse the arguments of a /retention command
+ * Accepts: (none), reset, and "messages|vectors <days>[d] | off | default"
+ * @param text Message text
+ * @returns Parsed command, or null if the arguments are invalid
+ */
+export function parseRetentionCommand(text: string): RetentionCommand | null {
+  const args = text.replace(/^\/retention(?:@\w+)?/i, '').trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const [first, value, ...rest] = args;
+
+  if (!first) return { action: 'status' };
+  if (first === 'reset' && !value) return { action: 'reset' };
+
+  const target = first === 'messages' ? 'messages' : first === 'vectors' || first === 'embeddings' ? 'vectors' : null;
+  if (!target || !value || rest.length) return null;
+
+  if (value === 'off') return { action: 'set', target, days: 0 };
+  if (value === 'default') return { action: 'set', target, days: null };
+
+  const match = value.match(/^(\d+)d?$/);
+  const days = match ? parseInt(match[1], 10) : NaN;
+  if (!(days > 0 && days <= MAX_RETENTION_DAYS)) return null;
+  return { action: 'set', target, days };
+}
+
+/**
+ * Combine a group policy with the global default
+ * @param policy Group policy, if any
+ * @param global Global default, if any
+ * @returns Effective retention
+ */
+export function resolveRetention(
+  policy: RetentionPolicy | null,
+  global: RetentionPolicy | null
+): EffectiveRetention {
+  return {
+    messageDays: policy?.message_retention_days ?? global?.message_retention_days ?? 0,
+    vectorDays: policy?.vector_retention_days ?? global?.vector_retention_days ?? 0,
+    overridden: policy?.message_retention_days != null || policy?.vector_retention_days != null,
+  };
+}
+
+/**
+ * Look up the retention that applies to a group
+ * @param groupId Group/channel ID, or omitted for the global default
+ * @returns Effective retention (indefinite if nothing is set or on error)
+ */
+export async function getEffectiveRetention(groupId?: number): Promise<EffectiveRetention> {
+  const [policy, global] = await Promise.all([
+    groupId === undefined ? null : getRetentionPolicy(groupId),
+    getRetentionPolicy(GLOBAL_RETENTION_ID),
+  ]);
+  return resolveRetention(policy, global);
+}
+
+/**
+ * Describe a retention period in plain text
+ * @param retention Effective retention
+ * @returns Lines such as "Messages are deleted after 90 days"
+ */
+export function describeRetention(retention: EffectiveRetention): string[] {
+  const days = (count: number) => `${count} day${count === 1 ? '' : 's'}`;
+  return [
+    retention.messageDays
+      ? `Messages are deleted after ${days(retention.messageDays)}`
+      : 'Messages are kept until deleted',
+    retention.vectorDays && (!retention.messageDays || retention.vectorDays < retention.messageDays)
+      ? `Embeddings are removed after ${days(retention.vectorDays)}`
+      : 'Embeddings are kept as long as their message',
+  ];
+}
+
+/**
+ * Delete expired messages and clear expired embeddings
+ * Runs batches until nothing is left or MAX_PURGE_BATCHES is reached;
+ * safe to run concurrently
+ * @returns Numbers of messages deleted and embeddings cleared
+ */
+export async function runRetentionPurge(): Promise<PurgeResult> {
+  const result: PurgeResult = { messages: 0, vectors: 0 };
+
+  for (let batch = 0; batch < MAX_PURGE_BATCHES; batch++) {
+    const purged = await purgeExpiredData(PURGE_BATCH_SIZE);
+    if (!purged) break;
+    result.messages += purged.messages;
+    result.vectors += purged.vectors;
+    if (purged.messages < PURGE_BATCH_SIZE && purged.vectors < PURGE_BATCH_SIZE) break;
+  }
+
+  if (result.messages || result.vectors) {
+    logger.info(`[RETENTION] Deleted ${result.messages} expired message(s), cleared ${result.vectors} embedding(s)`);
+  }
+  return result;
+}
+
+/**
+ * Start the in-process retention purge
+ * Runs once at startup and then every intervalMs
+ * @param intervalMs Time between runs
+ * @returns Function that stops the purge
+ */
+export function startRetentionPurger(intervalMs: number = PURGE_INTERVAL_MS): () => void {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runRetentionPurge();
+    } catch (error) {
+      logger.error('[RETENTION] Purge run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+
+  logger.info(`✅ Retention purge started (every ${intervalMs}ms)`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,91 @@
+/**
+ * Context retrieval module for question answering
+ * Selects the stored conversations used as LLM prompt context
+ *
+ * Strategy:
+ * 1. Semantic: embed the question and run a pgvector similarity search
+ * 2. Recency: fall back to the most recent messages when embeddings are
+ *    disabled, the question cannot be embedded, or nothing matches
+ * 3. Threads: add the reply chain and direct replies around the top
+ *    messages so answers see who was answering whom
+ *
+ * Results are ordered by priority (most relevant first, thread messages
+ * right after their seed); assemblePrompt picks and orders what fits.
+ */
+
+import { ConversationRecord } from './types.js';
+import { fetchMessages, fetchThread, matchMessages } from './supabase.js';
+import { areEmbeddingsAvailable, generateEmbedding, getEmbeddingModel } from './embeddings.js';
+import { logger } from './logger.js';
+
+/** Default number of messages handed to the prompt builder */
+const DEFAULT_CONTEXT_LIMIT = 20;
+
+/** Number of top messages whose surrounding thread is added to the context */
+const THREAD_EXPANSION_LIMIT = 5;
+
+/**
+ * Retrieve the messages most relevant to a question
+ * @param question The user's question
+ * @param options Optional group scope (omit for all groups), result limit and thread expansion (default on)
+ * @returns Context messages, most relevant first
+ */
+export async function retrieveContextMessages(
+  question: string,
+  options: { groupIds?: number[]; limit?: number; threads?: boolean } = {}
+): Promise<ConversationRecord[]> {
+  const expand = options.threads ?? true;
+  const limit = options.limit ?? DEFAULT_CONTEXT_LIMIT;
+
+  if (areEmbeddingsAvailable()) {
+    const { embedding } = await generateEmbedding(question);
+    if (embedding) {
+      // Only compare against vectors produced by the same model
+      const matches = await matchMessages({
+        embedding,
+        model: getEmbeddingModel(),
+        groupIds: options.groupIds,
+        limit,
+      });
+      if (matches.length) {
+        logger.debug(`[RETRIEVAL] ${matches.length} semantic match(es) for question`);
+        return expand ? withThreads(matches) : matches;
+      }
+      logger.debug('[RETRIEVAL] No semantic matches, falling back to recent messages');
+    } else {
+      logger.debug('[RETRIEVAL] Question could not be embedded, falling back to recent messages');
+    }
+  }
+
+  const recent = await fetchMessages({ groupIds: options.groupIds, limit });
+  return expand ? withThreads(recent) : recent;
+}
+
+/**
+ * Add the surrounding reply thread of the first messages
+ * Thread messages follow their seed and are in the same group, so group scoping is preserved
+ * @param messages Retrieved messages, most relevant first
+ * @returns Messages plus thread messages, without duplicates
+ * @private
+ */
+async function withThreads(messages: ConversationRecord[]): Promise<ConversationRecord[]> {
+  const threads = await Promise.all(
+    messages
+      .slice(0, THREAD_EXPANSION_LIMIT)
+      .map((msg) => fetchThread({ groupId: msg.group_id, messageId: msg.message_id }))
+  );
+
+  const byKey = new Map<string, ConversationRecord>();
+  messages.forEach((seed, i) => {
+    for (const msg of [seed, ...(threads[i] ?? [])]) {
+      const key = `${msg.group_id}:${msg.message_id}`;
+      if (!byKey.has(key)) byKey.set(key, msg);
+    }
+  });
+
+  const added = byKey.size - messages.length;
+  if (added > 0) {
+    logger.debug(`[RETRIEVAL] Added ${added} thread message(s) to the context`);
+  }
+  return [...byKey.values()];
+}
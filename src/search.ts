@@ -0,0 +1,187 @@
+/**
+ * Search module for /search and "@bot search ..."
+ * Finds stored conversations without going through the answer provider
+ *
+ * Results combine Postgres full-text search with vector similarity (when
+ * embeddings are available) and are shown a page at a time with t.me links.
+ * Pagination is stateless: the results message replies to the search
+ * request, so next/prev buttons re-read the query from that message.
+ */
+
+import { InlineKeyboard } from 'grammy';
+import { ConversationRecord } from './types.js';
+import { searchMessages } from './supabase.js';
+import { areEmbeddingsAvailable, generateEmbedding, getEmbeddingModel } from './embeddings.js';
+import { authorName, chatName } from './directory.js';
+import { logger } from './logger.js';
+
+/** Results per page */
+export const SEARCH_PAGE_SIZE = 5;
+
+/** Callback data prefix of the next/prev buttons, followed by the page number */
+export const SEARCH_PAGE_CALLBACK = 'search_page:';
+
+/** Minimum cosine similarity for semantic results */
+const SEARCH_SIMILARITY_THRESHOLD = 0.25;
+
+/** Longest message excerpt shown per result */
+const SNIPPET_LENGTH = 200;
+
+/**
+ * One page of search results
+ */
+export interface SearchPage {
+  /** Matches on this page, best first */
+  results: ConversationRecord[];
+  /** Zero-based page number */
+  page: number;
+  /** Whether a next page exists */
+  hasMore: boolean;
+}
+
+/**
+ * Extract the query from a search request
+ * Accepts "/search <query>", "/search@Bot <query>" and "@Bot search <query>"
+ * @param text Message text
+ * @param botUsername Bot username without @
+ * @returns Query, or null if the text is not a search request
+ */
+export function parseSearchQuery(text: string, botUsername?: string): string | null {
+  const command = text.match(/^\/search(?:@\w+)?\s+([\s\S]+)/i);
+  if (command) {
+    return command[1].trim() || null;
+  }
+  if (botUsername) {
+    const mention = text.match(new RegExp(`@${botUsername}\\s+search\\s+([\\s\\S]+)`, 'i'));
+    if (mention) {
+      return mention[1].trim() || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Run a hybrid search and return one page of results
+ * Falls back to keyword-only search when the query cannot be embedded
+ * @param query Search query
+ * @param options Group scope (omit for all groups) and zero-based page
+ * @returns Page of results
+ */
+export async function searchConversations(
+  query: string,
+  options: { groupIds?: number[]; page?: number } = {}
+): Promise<SearchPage> {
+  const page = Math.max(0, options.page ?? 0);
+
+  let embedding: number[] | null = null;
+  if (areEmbeddingsAvailable()) {
+    ({ embedding } = await generateEmbedding(query));
+    if (!embedding) {
+      logger.debug('[SEARCH] Query could not be embedded, using keyword search only');
+    }
+  }
+
+  // Fetch one extra row to know whether there is a next page
+  const rows = await searchMessages({
+    query,
+    embedding,
+    model: getEmbeddingModel(),
+    groupIds: options.groupIds,
+    limit: SEARCH_PAGE_SIZE + 1,
+    offset: page * SEARCH_PAGE_SIZE,
+    threshold: SEARCH_SIMILARITY_THRESHOLD,
+  });
+
+  logger.debug(`[SEARCH] Page ${page} for '${query}': ${rows.length} row(s)`);
+  return {
+    results: rows.slice(0, SEARCH_PAGE_SIZE),
+    page,
+    hasMore: rows.length > SEARCH_PAGE_SIZE,
+  };
+}
+
+/**
+ * Build a t.me link to a stored message
+ * Only public chats and supergroups/channels have message links
+ * @param record Conversation record or event source (with its joined chat)
+ * @returns Link, or null for basic groups and private chats
+ */
+export function messageLink(
+  record: Pick<ConversationRecord, 'group_id' | 'message_id' | 'message_thread_id' | 'chat'>
+): string | null {
+  const thread = record.message_thread_id ? `${record.message_thread_id}/` : '';
+  if (record.chat?.username) {
+    return `https://t.me/${record.chat.username}/${thread}${record.message_id}`;
+  }
+  const chatId = String(record.group_id);
+  if (!chatId.startsWith('-100')) {
+    return null;
+  }
+  return `https://t.me/c/${chatId.slice(4)}/${thread}${record.message_id}`;
+}
+
+/**
+ * Escape text for Telegram HTML messages
+ * @param text Plain text
+ * @returns Text safe to embed in parse_mode HTML messages
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Format one stored message as an entry with author, linked group, date and excerpt
+ * @param record Conversation record (with its joined chat and sender)
+ * @param n Number shown before the entry (omit for an unnumbered entry)
+ * @returns HTML fragment (parse_mode HTML)
+ */
+export function formatMessageLine(record: ConversationRecord, n?: number): string {
+  const link = messageLink(record);
+  const date = record.timestamp.slice(0, 10);
+  const group = escapeHtml(chatName(record) ?? `Group ${record.group_id}`);
+  const snippet = record.text.length > SNIPPET_LENGTH
+    ? `${record.text.slice(0, SNIPPET_LENGTH)}…`
+    : record.text;
+  return (
+    `${n !== undefined ? `<b>${n}.</b> ` : ''}${escapeHtml(authorName(record))} · ${link ? `<a href="${link}">${group}</a>` : group} · ${date}\n` +
+    `${escapeHtml(snippet)}`
+  );
+}
+
+/**
+ * Format a page of results as an HTML message
+ * @param query Search query
+ * @param page Page of results
+ * @returns Message text (parse_mode HTML)
+ */
+export function formatSearchResults(query: string, page: SearchPage): string {
+  const header = `🔎 <b>Results for</b> "${escapeHtml(query)}"`;
+  if (!page.results.length) {
+    return page.page === 0 ? `${header}\n\nNo matching messages.` : `${header}\n\nNo more results.`;
+  }
+
+  const lines = page.results.map((record, i) =>
+    formatMessageLine(record, page.page * SEARCH_PAGE_SIZE + i + 1)
+  );
+
+  return `${header} (page ${page.page + 1})\n\n${lines.join('\n\n')}`;
+}
+
+/**
+ * Build the prev/next keyboard for a page of results
+ * @param page Page of results
+ * @returns Keyboard, or undefined if there is only one page
+ */
+export function searchKeyboard(page: SearchPage): InlineKeyboard | undefined {
+  if (page.page === 0 && !page.hasMore) {
+    return undefined;
+  }
+  const keyboard = new InlineKeyboard();
+  if (page.page > 0) {
+    keyboard.text('⬅️ Prev', `${SEARCH_PAGE_CALLBACK}${page.page - 1}`);
+  }
+  if (page.hasMore) {
+    keyboard.text('Next ➡️', `${SEARCH_PAGE_CALLBACK}${page.page + 1}`);
+  }
+  return keyboard;
+}
@@ -0,0 +1,93 @@
+/**
+ * Private-chat session module
+ * Remembers recent /ask turns per user so follow-up messages can be answered
+ *
+ * Sessions live in the ask_sessions table and expire after
+ * ASK_SESSION_TTL_MINUTES without a new question. Only the last
+ * MAX_SESSION_TURNS turns are kept; /reset deletes the session.
+ */
+
+import { AskSessionTurn, BotConfig } from './types.js';
+import { deleteAskSession, getAskSession, upsertAskSession } from './supabase.js';
+import { stripCitations } from './citations.js';
+import { logger } from './logger.js';
+
+/** Turns kept per session and included in prompts */
+const MAX_SESSION_TURNS = 5;
+
+let sessionTtlMs = 30 * 60_000;
+
+/**
+ * Configure session expiry
+ * @param config Bot configuration
+ */
+export function initSessions(config: BotConfig): void {
+  sessionTtlMs = config.askSessionTtlMinutes * 60_000;
+}
+
+/**
+ * Get the turns of a user's active session
+ * Expired sessions are deleted
+ * @param userId Telegram user ID
+ * @returns Turns oldest first, or null if the user has no active session
+ */
+export async function getActiveSession(userId: number): Promise<AskSessionTurn[] | null> {
+  const session = await getAskSession(userId);
+  if (!session) {
+    return null;
+  }
+  if (new Date(session.expires_at).getTime() <= Date.now()) {
+    await deleteAskSession(userId);
+    return null;
+  }
+  return session.turns;
+}
+
+/**
+ * Append a turn to a user's session, starting one if needed
+ * @param userId Telegram user ID
+ * @param history Turns of the active session (empty for a new session)
+ * @param question The user's question
+ * @param answer The answer given
+ */
+export async function recordSessionTurn(
+  userId: number,
+  history: AskSessionTurn[],
+  question: string,
+  answer: string
+): Promise<void> {
+  const turn: AskSessionTurn = {
+    question,
+    answer: stripCitations(answer),
+    asked_at: new Date().toISOString(),
+  };
+  const saved = await upsertAskSession({
+    user_id: userId,
+    turns: [...history, turn].slice(-MAX_SESSION_TURNS),
+    expires_at: new Date(Date.now() + sessionTtlMs).toISOString(),
+  });
+  if (!saved) {
+    logger.warn(`[SESSION] Could not save session for user ${userId}`);
+  }
+}
+
+/**
+ * End a user's session
+ * @param userId Telegram user ID
+ * @returns True if the session was cleared
+ */
+export async function resetSession(userId: number): Promise<boolean> {
+  return deleteAskSession(userId);
+}
+
+/**
+ * Build the text used to retrieve context for a question
+ * Follow-ups like "and who else was there?" are combined with the previous question
+ * @param history Turns of the active session
+ * @param question The user's question
+ * @returns Retrieval query
+ */
+export function retrievalQuery(history: AskSessionTurn[], question: string): string {
+  const previous = history[history.length - 1];
+  return previous ? `${previous.question}\n${question}` : question;
+}
@@ -5,31 +5,74 @@
  * Requires the following tables to exist:
  * - conversations: stores ingested messages with optional vector embeddings
  * - opt_out_users: stores users who have opted out of data collection
+ * - chat_members: stores the last known membership status of users in groups
+ * - embedding_jobs: queue of conversations waiting for embeddings
+ * - conversation_revisions: previous versions of edited messages
+ * - chats: groups, channels and private chats seen by the bot
+ * - telegram_users: users seen by the bot
+ * - message_media: attachment metadata of stored messages
+ * - ask_sessions: private-chat question/answer sessions
+ * - digest_schedules / digest_subscribers: per-group digest settings and DM recipients
+ * - events: events extracted from announcement messages
+ * - watches / watch_alerts: /watch subscriptions and the alerts sent for them
+ * - data_requests: audit log of data subject requests (/mydata)
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { ConversationRecord, OptOutUser } from './types.js';
+import {
+  AskSessionRecord,
+  ChatMemberRecord,
+  ChatRecord,
+  ConversationRecord,
+  DataRequestRecord,
+  DigestSchedule,
+  EmbeddingJob,
+  EventRecord,
+  MessageMediaRecord,
+  MessageScope,
+  OptOutUser,
+  RedactionCount,
+  RedactionDetector,
+  RedactionMode,
+  RetentionPolicy,
+  TelegramUserRecord,
+  UserDataExport,
+  UserMessageGroup,
+  WatchRecord,
+} from './types.js';
 import { logger } from './logger.js';
 
 let supabaseClient: SupabaseClient | null = null;
 
+/** Conversation columns plus the chat and sender joined from the reference tables */
+const CONVERSATION_WITH_REFS =
+  '*, chat:chats(type, title, username), sender:telegram_users(username, first_name, last_name)';
+
+/** Event columns plus the announcing message and its chat, for message links */
+const EVENT_WITH_SOURCE =
+  '*, source:conversations(group_id, message_id, message_thread_id, chat:chats(type, title, username))';
+
 /**
- * Fetch Telegram messages from the conversations table
- * @param params Query parameters (userId, groupId, limit, since)
+ * Fetch Telegram messages from the conversations table, most recent first
+ * Each record includes its chat and sender from the chats/telegram_users tables
+ * @param params Query parameters (userId, groupId, groupIds, limit, since)
  * @returns Array of ConversationRecord or empty array on error
  */
 export async function fetchMessages(params: {
   userId?: number;
   groupId?: number;
+  groupIds?: number[];
   limit?: number;
   since?: string;
 }): Promise<ConversationRecord[]> {
   const client = getSupabaseClient();
-  let query = client.from('conversations').select('*');
+  let query = client.from('conversations').select(CONVERSATION_WITH_REFS);
 
   if (params.userId) query = query.eq('user_id', params.userId);
   if (params.groupId) query = query.eq('group_id', params.groupId);
+  if (params.groupIds) query = query.in('group_id', params.groupIds);
   if (params.since) query = query.gte('timestamp', params.since);
+  query = query.order('timestamp', { ascending: false });
   if (params.limit) query = query.limit(params.limit);
 
   const { data, error } = await query;
@@ -37,7 +80,169 @@ export async function fetchMessages(params: {
     logger.error('Error fetching messages:', error);
     return [];
   }
-  return data as ConversationRecord[];
+  return data as unknown as ConversationRecord[];
+}
+
+/**
+ * Find the conversations most similar to a query embedding
+ * Backed by the match_conversations SQL function (see migrations); records
+ * include their chat and sender like fetchMessages
+ * @param params Query embedding and its model, optional group scope, result limit and similarity threshold
+ * @returns Array of ConversationRecord ordered by similarity, or empty array on error
+ */
+export async function matchMessages(params: {
+  embedding: number[];
+  model?: string | null;
+  groupIds?: number[];
+  limit?: number;
+  threshold?: number;
+}): Promise<ConversationRecord[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('match_conversations', {
+      query_embedding: params.embedding,
+      match_count: params.limit ?? 20,
+      match_threshold: params.threshold ?? 0,
+      filter_group_ids: params.groupIds ?? null,
+      filter_model: params.model ?? null,
+    }).select(CONVERSATION_WITH_REFS);
+
+    if (error) {
+      logger.error('Error matching messages:', error);
+      return [];
+    }
+    return (data as unknown as ConversationRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error matching messages:', error);
+    return [];
+  }
+}
+
+/**
+ * Search conversations by keywords and, when an embedding is given, by similarity
+ * Backed by the search_conversations SQL function (see migrations); records
+ * include their chat and sender like fetchMessages
+ * @param params Query text, optional query embedding and its model, group scope, paging and similarity threshold
+ * @returns Array of ConversationRecord best match first, or empty array on error
+ */
+export async function searchMessages(params: {
+  query: string;
+  embedding?: number[] | null;
+  model?: string | null;
+  groupIds?: number[];
+  limit?: number;
+  offset?: number;
+  threshold?: number;
+}): Promise<ConversationRecord[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('search_conversations', {
+      query_text: params.query,
+      query_embedding: params.embedding ?? null,
+      match_count: params.limit ?? 5,
+      match_offset: params.offset ?? 0,
+      match_threshold: params.threshold ?? 0,
+      filter_group_ids: params.groupIds ?? null,
+      filter_model: params.model ?? null,
+    }).select(CONVERSATION_WITH_REFS);
+
+    if (error) {
+      logger.error('Error searching messages:', error);
+      return [];
+    }
+    return (data as unknown as ConversationRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error searching messages:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch specific conversations by database ID
+ * Records include their chat and sender like fetchMessages
+ * @param ids conversations.id values
+ * @param groupIds Optional group scope; rows outside it are not returned
+ * @returns Array of ConversationRecord (in no particular order), or empty array on error
+ */
+export async function fetchMessagesByIds(
+  ids: number[],
+  groupIds?: number[]
+): Promise<ConversationRecord[]> {
+  if (!ids.length) {
+    return [];
+  }
+  const client = getSupabaseClient();
+
+  try {
+    let query = client.from('conversations').select(CONVERSATION_WITH_REFS).in('id', ids);
+    if (groupIds) query = query.in('group_id', groupIds);
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('Error fetching messages by ID:', error);
+      return [];
+    }
+    return (data as unknown as ConversationRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error fetching messages by ID:', error);
+    return [];
+  }
+}
+
+/**
+ * Reconstruct the reply thread around a stored message
+ * Backed by the get_conversation_thread SQL function (see migrations)
+ * @param params Message identity, ancestor depth and number of direct replies
+ * @returns Reply chain, the message and its first replies oldest first, or empty array on error
+ */
+export async function fetchThread(params: {
+  groupId: number;
+  messageId: number;
+  maxDepth?: number;
+  maxReplies?: number;
+}): Promise<ConversationRecord[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('get_conversation_thread', {
+      p_group_id: params.groupId,
+      p_message_id: params.messageId,
+      p_max_depth: params.maxDepth ?? 5,
+      p_max_replies: params.maxReplies ?? 5,
+    }).select(CONVERSATION_WITH_REFS);
+
+    if (error) {
+      logger.error('Error fetching message thread:', error);
+      return [];
+    }
+    return (data as unknown as ConversationRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error fetching message thread:', error);
+    return [];
+  }
+}
+
+/**
+ * Read the declared dimension of the conversations.vector column
+ * Backed by the get_vector_dimensions SQL function (see migrations)
+ * @returns Vector dimension, or null if it cannot be determined
+ */
+export async function getVectorDimensions(): Promise<number | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('get_vector_dimensions');
+    if (error) {
+      logger.error('Error reading vector dimensions:', error);
+      return null;
+    }
+    return typeof data === 'number' && data > 0 ? data : null;
+  } catch (error) {
+    logger.error('Unexpected error reading vector dimensions:', error);
+    return null;
+  }
 }
 
 /**
@@ -121,8 +326,10 @@ export async function ensureTables(): Promise<void> {
 
 /**
  * Insert a message into the conversations table
+ * Upserts on (group_id, message_id), so redelivered updates are harmless;
+ * columns missing from the record (e.g. vector) keep their stored values
  * @param record Conversation record to insert
- * @returns Inserted record or null on error
+ * @returns Inserted or updated record, or null on error
  */
 export async function insertMessage(
   record: ConversationRecord
@@ -132,7 +339,7 @@ export async function insertMessage(
   try {
     const { data, error } = await client
       .from('conversations')
-      .insert([record])
+      .upsert([record], { onConflict: 'group_id,message_id' })
       .select();
 
     if (error) {
@@ -141,7 +348,7 @@ export async function insertMessage(
     }
 
     logger.debug(
-      `✅ Message inserted (ID: ${record.message_id}, Group: ${record.group_id})`
+      `✅ Message stored (ID: ${record.message_id}, Group: ${record.group_id})`
     );
     return data?.[0] || null;
   } catch (error) {
@@ -150,6 +357,278 @@ export async function insertMessage(
   }
 }
 
+/**
+ * Store the attachment metadata of a message
+ * Upserts on conversation_id, so redelivered messages do not duplicate rows
+ * @param record Attachment metadata
+ * @returns True on success, false on error
+ */
+export async function upsertMessageMedia(record: MessageMediaRecord): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('message_media')
+      .upsert([record], { onConflict: 'conversation_id' });
+
+    if (error) {
+      logger.error('Error storing message media:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error storing message media:', error);
+    return false;
+  }
+}
+
+/** embedding_model of rows whose vector expired under the retention policy */
+const EXPIRED_EMBEDDING_MODEL = 'expired';
+
+/**
+ * Page through conversations in id order for (re-)embedding
+ * Rows whose embedding expired are left out unless params.model asks for them
+ * @param params Keyset cursor, page size and optional filters
+ * @returns Array of ConversationRecord (id and text only), empty array on error
+ */
+export async function fetchMessagesForEmbedding(params: {
+  afterId: number;
+  limit: number;
+  onlyMissing?: boolean;
+  groupId?: number;
+  model?: string;
+}): Promise<ConversationRecord[]> {
+  const client = getSupabaseClient();
+
+  try {
+    let query = client
+      .from('conversations')
+      .select('id, text, group_id, embedding_model')
+      .gt('id', params.afterId);
+
+    if (params.onlyMissing) query = query.is('vector', null);
+    if (params.groupId) query = query.eq('group_id', params.groupId);
+    if (params.model) query = query.eq('embedding_model', params.model);
+    else query = query.or(`embedding_model.is.null,embedding_model.neq.${EXPIRED_EMBEDDING_MODEL}`);
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .limit(params.limit);
+
+    if (error) {
+      logger.error('Error fetching messages for embedding:', error);
+      return [];
+    }
+    return (data as ConversationRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error fetching messages for embedding:', error);
+    return [];
+  }
+}
+
+/**
+ * Store a vector for an existing conversation row
+ * Backed by the store_message_embedding SQL function (see migrations), which
+ * only writes while the row still has the text the vector was computed from
+ * @param id Database ID of the conversation row
+ * @param embedding Vector embedding
+ * @param model Model that produced the vector
+ * @param text Text the vector was computed from
+ * @returns True if stored, false if the message was edited since, null on error
+ */
+export async function updateMessageEmbedding(
+  id: number,
+  embedding: number[],
+  model: string,
+  text: string
+): Promise<boolean | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('store_message_embedding', {
+      target_id: id,
+      new_vector: embedding,
+      new_model: model,
+      embedded_text: text,
+    });
+
+    if (error) {
+      logger.error(`Error updating embedding for conversation ${id}:`, error);
+      return null;
+    }
+    return data === true;
+  } catch (error) {
+    logger.error('Unexpected error updating embedding:', error);
+    return null;
+  }
+}
+
+/**
+ * Queue a conversation for embedding (resets an existing job to pending)
+ * @param conversationId Database ID of the conversation row
+ * @returns True if queued, false on error
+ */
+export async function enqueueEmbeddingJob(conversationId: number): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const now = new Date().toISOString();
+    const { error } = await client.from('embedding_jobs').upsert(
+      [
+        {
+          conversation_id: conversationId,
+          status: 'pending',
+          attempts: 0,
+          next_attempt_at: now,
+          last_error: null,
+          updated_at: now,
+        },
+      ],
+      { onConflict: 'conversation_id' }
+    );
+
+    if (error) {
+      logger.error(`Error queueing embedding job for conversation ${conversationId}:`, error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error queueing embedding job:', error);
+    return false;
+  }
+}
+
+/**
+ * Lease a batch of due embedding jobs
+ * Backed by the claim_embedding_jobs SQL function (see migrations)
+ * @param batchSize Maximum number of jobs to claim
+ * @returns Claimed jobs with their message text, empty array on error
+ */
+export async function claimEmbeddingJobs(batchSize: number): Promise<EmbeddingJob[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('claim_embedding_jobs', {
+      batch_size: batchSize,
+    });
+
+    if (error) {
+      logger.error('Error claiming embedding jobs:', error);
+      return [];
+    }
+    return (data as EmbeddingJob[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error claiming embedding jobs:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove a finished embedding job
+ * Only removes the job while it still holds the worker's lease; a job
+ * re-queued in the meantime (message edited) is left for the next run
+ * @param jobId Database ID of the job
+ * @param claimedAt Lease token returned by the claim
+ * @returns True if removed, false if it was re-queued since or on error
+ */
+export async function completeEmbeddingJob(jobId: number, claimedAt: string): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('embedding_jobs')
+      .delete()
+      .eq('id', jobId)
+      .eq('updated_at', claimedAt)
+      .select('id');
+    if (error) {
+      logger.error(`Error completing embedding job ${jobId}:`, error);
+      return false;
+    }
+    return (data?.length ?? 0) > 0;
+  } catch (error) {
+    logger.error('Unexpected error completing embedding job:', error);
+    return false;
+  }
+}
+
+/**
+ * Record a failed embedding attempt
+ * Ignored if the job was re-queued since it was claimed
+ * @param jobId Database ID of the job
+ * @param claimedAt Lease token returned by the claim
+ * @param reason Failure reason stored in last_error
+ * @param retryAt When to retry, or null to give up (status 'failed')
+ * @returns True if recorded, false on error
+ */
+export async function failEmbeddingJob(
+  jobId: number,
+  claimedAt: string,
+  reason: string,
+  retryAt: Date | null
+): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('embedding_jobs')
+      .update({
+        status: retryAt ? 'pending' : 'failed',
+        next_attempt_at: (retryAt ?? new Date()).toISOString(),
+        last_error: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('updated_at', claimedAt);
+
+    if (error) {
+      logger.error(`Error recording failure for embedding job ${jobId}:`, error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error recording embedding job failure:', error);
+    return false;
+  }
+}
+
+/**
+ * Replace the text of an edited message, archiving the previous version
+ * Backed by the record_message_edit SQL function (see migrations)
+ * @param groupId Group/channel ID of the message
+ * @param messageId Telegram message ID
+ * @param text Edited message text
+ * @param editedAt Time of the edit
+ * @returns Conversation ID if updated, null if unknown/unchanged or on error
+ */
+export async function recordMessageEdit(
+  groupId: number,
+  messageId: number,
+  text: string,
+  editedAt: Date
+): Promise<number | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('record_message_edit', {
+      p_group_id: groupId,
+      p_message_id: messageId,
+      p_text: text,
+      p_edited_at: editedAt.toISOString(),
+    });
+
+    if (error) {
+      logger.error('Error recording message edit:', error);
+      return null;
+    }
+    return typeof data === 'number' ? data : null;
+  } catch (error) {
+    logger.error('Unexpected error recording message edit:', error);
+    return null;
+  }
+}
+
 /**
  * Check if a user has opted out of data collection
  * @param userId Telegram user ID to check
@@ -180,19 +659,23 @@ export async function isUserOptedOut(userId: number): Promise<boolean> {
 
 /**
  * Add a user to the opt-out list
+ * Opting out again keeps the original record and still succeeds
  * @param userId Telegram user ID to opt out
- * @returns True if successfully added, false on error
+ * @returns True if the user is opted out, false on error
  */
 export async function addUserOptOut(userId: number): Promise<boolean> {
   const client = getSupabaseClient();
 
   try {
-    const { error } = await client.from('opt_out_users').insert([
-      {
-        user_id: userId,
-        opted_out_at: new Date().toISOString(),
-      },
-    ]);
+    const { error } = await client.from('opt_out_users').upsert(
+      [
+        {
+          user_id: userId,
+          opted_out_at: new Date().toISOString(),
+        },
+      ],
+      { onConflict: 'user_id', ignoreDuplicates: true }
+    );
 
     if (error) {
       logger.error('Error adding user to opt-out list:', error);
@@ -207,6 +690,64 @@ export async function addUserOptOut(userId: number): Promise<boolean> {
   }
 }
 
+/**
+ * Remove a user from the opt-out list so their messages are collected again
+ * @param userId Telegram user ID to opt back in
+ * @returns True if a record was removed, false if the user was not opted out or on error
+ */
+export async function removeUserOptOut(userId: number): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('opt_out_users')
+      .delete()
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      logger.error('Error removing user from opt-out list:', error);
+      return false;
+    }
+
+    if (data?.length) {
+      logger.info(`✅ User ${userId} opted back in`);
+    }
+    return !!data?.length;
+  } catch (error) {
+    logger.error('Unexpected error during opt-in:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete everything stored about a user
+ * Backed by the erase_user_data SQL function: messages and their revisions,
+ * media, events, embedding jobs and watch alerts, plus watches, sessions,
+ * digest subscriptions, memberships and the user profile. Forwards of the
+ * user's messages lose their attribution. The opt-out record is kept.
+ * @param userId Telegram user ID
+ * @returns Rows removed per table, or null on error
+ */
+export async function eraseUserData(userId: number): Promise<Record<string, number> | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.rpc('erase_user_data', { p_user_id: userId });
+
+    if (error) {
+      logger.error('Error erasing user data:', error);
+      return null;
+    }
+
+    logger.info(`✅ Erased data of user ${userId}:`, data);
+    return data as Record<string, number>;
+  } catch (error) {
+    logger.error('Unexpected error erasing user data:', error);
+    return null;
+  }
+}
+
 /**
  * Get total count of ingested messages from conversations table
  * Useful for monitoring and statistics
@@ -233,28 +774,1131 @@ export async function getMessageCount(): Promise<number> {
 }
 
 /**
- * Clear all messages for a specific user
- * @param userId Telegram user ID whose messages to delete
- * @returns Number of messages deleted, 0 on error
+ * List the groups a user has stored messages in
+ * Backed by the get_user_message_groups SQL function
+ * @param userId Telegram user ID
+ * @returns Groups with message counts, most messages first; empty array on error
  */
-export async function clearUserMessages(userId: number): Promise<number> {
+export async function getUserMessageGroups(userId: number): Promise<UserMessageGroup[]> {
   const client = getSupabaseClient();
 
   try {
-    const { count, error } = await client
+    const { data, error } = await client.rpc('get_user_message_groups', { p_user_id: userId });
+
+    if (error) {
+      logger.error('Error listing user message groups:', error);
+      return [];
+    }
+
+    return ((data as UserMessageGroup[]) || []).map((group) => ({
+      ...group,
+      group_id: Number(group.group_id),
+      message_count: Number(group.message_count),
+    }));
+  } catch (error) {
+    logger.error('Unexpected error listing user message groups:', error);
+    return [];
+  }
+}
+
+/**
+ * Count a user's stored messages within a scope
+ * @param userId Telegram user ID
+ * @param scope Optional group and time range
+ * @returns Number of messages, or null on error
+ */
+export async function countUserMessages(userId: number, scope: MessageScope = {}): Promise<number | null> {
+  const client = getSupabaseClient();
+
+  try {
+    let query = client
       .from('conversations')
-      .delete()
+      .select('id', { count: 'exact', head: true })
       .eq('user_id', userId);
+    if (scope.groupId !== undefined) query = query.eq('group_id', scope.groupId);
+    if (scope.since) query = query.gte('timestamp', scope.since.toISOString());
+    if (scope.until) query = query.lt('timestamp', scope.until.toISOString());
 
+    const { count, error } = await query;
     if (error) {
-      logger.error('Error clearing user messages:', error);
-      return 0;
+      logger.error('Error counting user messages:', error);
+      return null;
     }
 
-    logger.info(`✅ Cleared ${count} messages for user ${userId}`);
-    return count || 0;
+    return count ?? 0;
   } catch (error) {
-    logger.error('Unexpected error clearing messages:', error);
+    logger.error('Unexpected error counting user messages:', error);
+    return null;
+  }
+}
+
+/**
+ * Clear a user's stored messages, optionally limited to one group and a time range
+ * Revisions, media, events, embedding jobs and watch alerts of the messages are deleted with them
+ * @param userId Telegram user ID whose messages to delete
+ * @param scope Optional group and time range (all messages if omitted)
+ * @returns Number of messages deleted, 0 on error
+ */
+export async function clearUserMessages(userId: number, scope: MessageScope = {}): Promise<number> {
+  const client = getSupabaseClient();
+
+  try {
+    let query = client
+      .from('conversations')
+      .delete({ count: 'exact' })
+      .eq('user_id', userId);
+    if (scope.groupId !== undefined) query = query.eq('group_id', scope.groupId);
+    if (scope.since) query = query.gte('timestamp', scope.since.toISOString());
+    if (scope.until) query = query.lt('timestamp', scope.until.toISOString());
+
+    const { count, error } = await query;
+
+    if (error) {
+      logger.error('Error clearing user messages:', error);
+      return 0;
+    }
+
+    logger.info(`✅ Cleared ${count} messages for user ${userId}`);
+    return count || 0;
+  } catch (error) {
+    logger.error('Unexpected error clearing messages:', error);
     return 0;
   }
 }
+
+/**
+ * Record a user's membership status in a group
+ * @param groupId Group/channel ID
+ * @param userId Telegram user ID
+ * @param status Telegram member status (e.g. 'member', 'left')
+ * @returns True if stored, false on error
+ */
+export async function upsertChatMember(
+  groupId: number,
+  userId: number,
+  status: string
+): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const record: ChatMemberRecord = {
+      group_id: groupId,
+      user_id: userId,
+      status,
+      updated_at: new Date().toISOString(),
+    };
+    const { error } = await client
+      .from('chat_members')
+      .upsert([record], { onConflict: 'group_id,user_id' });
+
+    if (error) {
+      logger.error('Error recording chat member:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error recording chat member:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the groups a user is currently recorded as a member of
+ * @param userId Telegram user ID
+ * @param statuses Member statuses that count as membership
+ * @returns Array of group IDs, empty array on error
+ */
+export async function getMemberGroupIds(
+  userId: number,
+  statuses: string[]
+): Promise<number[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('chat_members')
+      .select('group_id')
+      .eq('user_id', userId)
+      .in('status', statuses);
+
+    if (error) {
+      logger.error('Error fetching member groups:', error);
+      return [];
+    }
+
+    return (data || []).map((row: { group_id: number }) => row.group_id);
+  } catch (error) {
+    logger.error('Unexpected error fetching member groups:', error);
+    return [];
+  }
+}
+
+/**
+ * Insert or refresh a chat in the chats table
+ * @param record Chat details from an incoming update
+ * @returns True on success, false on error
+ */
+export async function upsertChat(record: ChatRecord): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('chats')
+      .upsert([{ ...record, last_seen_at: record.last_seen_at ?? new Date().toISOString() }], {
+        onConflict: 'id',
+      });
+
+    if (error) {
+      logger.error('Error recording chat:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error recording chat:', error);
+    return false;
+  }
+}
+
+/**
+ * Insert or refresh a user in the telegram_users table
+ * @param record User details from an incoming update
+ * @returns True on success, false on error
+ */
+export async function upsertTelegramUser(record: TelegramUserRecord): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('telegram_users')
+      .upsert([{ ...record, last_seen_at: record.last_seen_at ?? new Date().toISOString() }], {
+        onConflict: 'id',
+      });
+
+    if (error) {
+      logger.error('Error recording Telegram user:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error recording Telegram user:', error);
+    return false;
+  }
+}
+
+/**
+ * Get a user's private-chat session
+ * @param userId Telegram user ID
+ * @returns Session (possibly expired), or null if none exists or on error
+ */
+export async function getAskSession(userId: number): Promise<AskSessionRecord | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('ask_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching ask session:', error);
+      return null;
+    }
+
+    return (data as AskSessionRecord) || null;
+  } catch (error) {
+    logger.error('Unexpected error fetching ask session:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or replace a user's private-chat session
+ * @param record Session to store
+ * @returns True on success, false on error
+ */
+export async function upsertAskSession(record: AskSessionRecord): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('ask_sessions')
+      .upsert([{ ...record, updated_at: new Date().toISOString() }], { onConflict: 'user_id' });
+
+    if (error) {
+      logger.error('Error storing ask session:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error storing ask session:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a user's private-chat session
+ * @param userId Telegram user ID
+ * @returns True on success (including when no session existed), false on error
+ */
+export async function deleteAskSession(userId: number): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client.from('ask_sessions').delete().eq('user_id', userId);
+
+    if (error) {
+      logger.error('Error deleting ask session:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error deleting ask session:', error);
+    return false;
+  }
+}
+
+/**
+ * Get a group's digest settings
+ * @param groupId Group/channel ID
+ * @returns DigestSchedule, or null if none is configured or on error
+ */
+export async function getDigestSchedule(groupId: number): Promise<DigestSchedule | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('digest_schedules')
+      .select('*')
+      .eq('group_id', groupId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching digest schedule:', error);
+      return null;
+    }
+
+    return (data as DigestSchedule) || null;
+  } catch (error) {
+    logger.error('Unexpected error fetching digest schedule:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or replace a group's digest settings
+ * @param record Digest settings
+ * @returns True on success, false on error
+ */
+export async function upsertDigestSchedule(record: DigestSchedule): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('digest_schedules')
+      .upsert([{ ...record, updated_at: new Date().toISOString() }], { onConflict: 'group_id' });
+
+    if (error) {
+      logger.error('Error storing digest schedule:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error storing digest schedule:', error);
+    return false;
+  }
+}
+
+/**
+ * Get enabled digest schedules whose next run has passed
+ * @param now Current time
+ * @param limit Maximum number of schedules
+ * @returns Array of DigestSchedule, empty array on error
+ */
+export async function fetchDueDigestSchedules(now: Date, limit: number): Promise<DigestSchedule[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('digest_schedules')
+      .select('*')
+      .eq('enabled', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Error fetching due digests:', error);
+      return [];
+    }
+
+    return (data as DigestSchedule[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error fetching due digests:', error);
+    return [];
+  }
+}
+
+/**
+ * Claim a due digest by advancing its next run
+ * Only succeeds if next_run_at is unchanged, so concurrent schedulers send each digest once
+ * @param groupId Group/channel ID
+ * @param expectedNextRunAt next_run_at as read by fetchDueDigestSchedules
+ * @param nextRunAt Time of the following digest
+ * @returns True if this caller claimed the digest
+ */
+export async function claimDigestRun(
+  groupId: number,
+  expectedNextRunAt: string,
+  nextRunAt: Date
+): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('digest_schedules')
+      .update({ next_run_at: nextRunAt.toISOString() })
+      .eq('group_id', groupId)
+      .eq('next_run_at', expectedNextRunAt)
+      .select('group_id');
+
+    if (error) {
+      logger.error('Error claiming digest run:', error);
+      return false;
+    }
+
+    return !!data?.length;
+  } catch (error) {
+    logger.error('Unexpected error claiming digest run:', error);
+    return false;
+  }
+}
+
+/**
+ * Record that a digest was delivered, so the next one starts after it
+ * @param groupId Group/channel ID
+ * @param sentAt End of the period the digest covered
+ * @returns True on success, false on error
+ */
+export async function recordDigestSent(groupId: number, sentAt: Date): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('digest_schedules')
+      .update({ last_sent_at: sentAt.toISOString() })
+      .eq('group_id', groupId);
+
+    if (error) {
+      logger.error('Error recording digest delivery:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error recording digest delivery:', error);
+    return false;
+  }
+}
+
+/**
+ * Subscribe a user to a group's digest by DM
+ * @param groupId Group/channel ID
+ * @param userId Telegram user ID
+ * @returns True on success (including when already subscribed), false on error
+ */
+export async function addDigestSubscriber(groupId: number, userId: number): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('digest_subscribers')
+      .upsert([{ group_id: groupId, user_id: userId }], {
+        onConflict: 'group_id,user_id',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      logger.error('Error adding digest subscriber:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error adding digest subscriber:', error);
+    return false;
+  }
+}
+
+/**
+ * Unsubscribe a user from a group's digest
+ * @param groupId Group/channel ID
+ * @param userId Telegram user ID
+ * @returns True on success, false on error
+ */
+export async function removeDigestSubscriber(groupId: number, userId: number): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('digest_subscribers')
+      .delete()
+      .eq('group_id', groupId)
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Error removing digest subscriber:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error removing digest subscriber:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the users who receive a group's digest by DM
+ * @param groupId Group/channel ID
+ * @returns Array of Telegram user IDs, empty array on error
+ */
+export async function getDigestSubscribers(groupId: number): Promise<number[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('digest_subscribers')
+      .select('user_id')
+      .eq('group_id', groupId);
+
+    if (error) {
+      logger.error('Error fetching digest subscribers:', error);
+      return [];
+    }
+
+    return (data || []).map((row: { user_id: number }) => row.user_id);
+  } catch (error) {
+    logger.error('Unexpected error fetching digest subscribers:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the events extracted from a message
+ * Existing events of the message are deleted first, so edits do not leave stale events
+ * @param conversationId conversations.id of the announcing message
+ * @param events Extracted events (may be empty)
+ * @returns True on success, false on error
+ */
+export async function replaceMessageEvents(
+  conversationId: number,
+  events: EventRecord[]
+): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error: deleteError } = await client
+      .from('events')
+      .delete()
+      .eq('conversation_id', conversationId);
+
+    if (deleteError) {
+      logger.error('Error deleting message events:', deleteError);
+      return false;
+    }
+
+    if (!events.length) {
+      return true;
+    }
+
+    const { error } = await client.from('events').insert(events);
+    if (error) {
+      logger.error('Error storing message events:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error storing message events:', error);
+    return false;
+  }
+}
+
+/**
+ * Fetch upcoming or past events
+ * Upcoming events have not ended yet (soonest first); past events have (most recent first).
+ * Each record includes its announcing message and chat as `source`
+ * @param params Upcoming or past, optional group scope, reference time and limit
+ * @returns Array of EventRecord, empty array on error
+ */
+export async function fetchEvents(params: {
+  upcoming: boolean;
+  groupIds?: number[];
+  now?: Date;
+  limit?: number;
+}): Promise<EventRecord[]> {
+  const client = getSupabaseClient();
+  const now = (params.now ?? new Date()).toISOString();
+
+  try {
+    let query = client.from('events').select(EVENT_WITH_SOURCE);
+    if (params.groupIds) query = query.in('group_id', params.groupIds);
+    query = params.upcoming
+      ? query.or(`starts_at.gte."${now}",ends_at.gte."${now}"`).order('starts_at', { ascending: true })
+      : query
+          .lt('starts_at', now)
+          .or(`ends_at.is.null,ends_at.lt."${now}"`)
+          .order('starts_at', { ascending: false });
+    if (params.limit) query = query.limit(params.limit);
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('Error fetching events:', error);
+      return [];
+    }
+
+    return (data as unknown as EventRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error fetching events:', error);
+    return [];
+  }
+}
+
+/** Watch columns without the phrase embedding */
+const WATCH_COLUMNS = 'id, user_id, match_type, phrase, embedding_model, threshold, created_at';
+
+/**
+ * Store a new watch
+ * @param record Watch to store
+ * @returns Stored watch (without its embedding), or null if it already exists or on error
+ */
+export async function insertWatch(record: WatchRecord): Promise<WatchRecord | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.from('watches').insert([record]).select(WATCH_COLUMNS).single();
+
+    if (error) {
+      // Duplicate (user_id, match_type, phrase)
+      if (error.code !== '23505') {
+        logger.error('Error storing watch:', error);
+      }
+      return null;
+    }
+
+    return data as WatchRecord;
+  } catch (error) {
+    logger.error('Unexpected error storing watch:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a user's watches, oldest first
+ * @param userId Telegram user ID
+ * @returns Array of WatchRecord (without embeddings), empty array on error
+ */
+export async function getUserWatches(userId: number): Promise<WatchRecord[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('watches')
+      .select(WATCH_COLUMNS)
+      .eq('user_id', userId)
+      .order('id', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching watches:', error);
+      return [];
+    }
+
+    return (data as WatchRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error fetching watches:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete one of a user's watches, or all of them
+ * @param userId Telegram user ID (only the owner's watches are deleted)
+ * @param watchId Watch to delete; omit to delete every watch of the user
+ * @returns Number of deleted watches, or null on error
+ */
+export async function deleteWatches(userId: number, watchId?: number): Promise<number | null> {
+  const client = getSupabaseClient();
+
+  try {
+    let query = client.from('watches').delete().eq('user_id', userId);
+    if (watchId !== undefined) query = query.eq('id', watchId);
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      logger.error('Error deleting watches:', error);
+      return null;
+    }
+
+    return data?.length ?? 0;
+  } catch (error) {
+    logger.error('Unexpected error deleting watches:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the keyword and regex watches that apply to a stored message
+ * Backed by the get_keyword_watches SQL function: watches of current members
+ * of the message's group, excluding the sender
+ * @param conversationId conversations.id of the message
+ * @returns Array of WatchRecord, empty array on error
+ */
+export async function getKeywordWatches(conversationId: number): Promise<WatchRecord[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .rpc('get_keyword_watches', { p_conversation_id: conversationId })
+      .select(WATCH_COLUMNS);
+
+    if (error) {
+      logger.error('Error fetching keyword watches:', error);
+      return [];
+    }
+
+    return (data as WatchRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error fetching keyword watches:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the semantic watches a stored (embedded) message matches
+ * Backed by the match_semantic_watches SQL function
+ * @param conversationId conversations.id of the message
+ * @returns Array of WatchRecord, empty array on error
+ */
+export async function matchSemanticWatches(conversationId: number): Promise<WatchRecord[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .rpc('match_semantic_watches', { p_conversation_id: conversationId })
+      .select(WATCH_COLUMNS);
+
+    if (error) {
+      logger.error('Error matching semantic watches:', error);
+      return [];
+    }
+
+    return (data as WatchRecord[]) || [];
+  } catch (error) {
+    logger.error('Unexpected error matching semantic watches:', error);
+    return [];
+  }
+}
+
+/**
+ * Count the watch alerts a user received since a given time
+ * @param userId Telegram user ID
+ * @param since Start of the window
+ * @returns Number of alerts, or null on error
+ */
+export async function countRecentWatchAlerts(userId: number, since: Date): Promise<number | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { count, error } = await client
+      .from('watch_alerts')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('sent_at', since.toISOString());
+
+    if (error) {
+      logger.error('Error counting watch alerts:', error);
+      return null;
+    }
+
+    return count ?? 0;
+  } catch (error) {
+    logger.error('Unexpected error counting watch alerts:', error);
+    return null;
+  }
+}
+
+/**
+ * Record alerts for a message, skipping watches already alerted for it
+ * @param userId Telegram user ID of the subscriber
+ * @param conversationId conversations.id of the matching message
+ * @param watchIds Matching watches
+ * @returns IDs of the watches not alerted before, empty array on error
+ */
+export async function recordWatchAlerts(
+  userId: number,
+  conversationId: number,
+  watchIds: number[]
+): Promise<number[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('watch_alerts')
+      .upsert(
+        watchIds.map((watchId) => ({ watch_id: watchId, user_id: userId, conversation_id: conversationId })),
+        { onConflict: 'watch_id,conversation_id', ignoreDuplicates: true }
+      )
+      .select('watch_id');
+
+    if (error) {
+      logger.error('Error recording watch alerts:', error);
+      return [];
+    }
+
+    return (data || []).map((row: { watch_id: number }) => Number(row.watch_id));
+  } catch (error) {
+    logger.error('Unexpected error recording watch alerts:', error);
+    return [];
+  }
+}
+
+/** Rows fetched per request when exporting user data */
+const EXPORT_PAGE_SIZE = 1000;
+
+/** Exported conversation columns (no vector) with edit history, attachments, events and chat */
+const EXPORT_CONVERSATION_COLUMNS =
+  'id, message_id, group_id, user_id, text, timestamp, edited_at, created_at, ' +
+  'user_name, user_first_name, user_last_name, reply_to_message_id, message_thread_id, ' +
+  'forward_origin_type, forward_from_user_id, forward_from_chat_id, forward_from_message_id, ' +
+  'forward_sender_name, forward_date, embedding_model, ' +
+  'chat:chats(title, username), ' +
+  'revisions:conversation_revisions(text, valid_from, valid_to), ' +
+  'media:message_media(media_type, file_name, mime_type, file_size, duration, width, height, text_extracted), ' +
+  'events(name, starts_at, ends_at, all_day, location, url, organisers)';
+
+/**
+ * Fetch every row of a table matching a column, a page at a time
+ * @param table Table name
+ * @param columns Columns to select
+ * @param column Column to filter on
+ * @param value Value to match
+ * @returns All matching rows in id order
+ * @throws The Supabase error if a page fails, so exports are never partial
+ * @private
+ */
+async function fetchAllRows(
+  table: string,
+  columns: string,
+  column: string,
+  value: number
+): Promise<Record<string, unknown>[]> {
+  const client = getSupabaseClient();
+  const rows: Record<string, unknown>[] = [];
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select(columns)
+      .eq(column, value)
+      .order('id', { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data as unknown as Record<string, unknown>[]) || []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Collect everything stored about a user for a data export
+ * @param userId Telegram user ID
+ * @returns Complete export, or null on error (a partial export is never returned)
+ */
+export async function fetchUserData(userId: number): Promise<UserDataExport | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const single = async (table: string, column: string) => {
+      const { data, error } = await client.from(table).select('*').eq(column, userId).maybeSingle();
+      if (error) throw error;
+      return data;
+    };
+
+    return {
+      user_id: userId,
+      exported_at: new Date().toISOString(),
+      profile: await single('telegram_users', 'id'),
+      opt_out: await single('opt_out_users', 'user_id'),
+      conversations: await fetchAllRows('conversations', EXPORT_CONVERSATION_COLUMNS, 'user_id', userId),
+      forwards: await fetchAllRows(
+        'conversations',
+        'id, group_id, message_id, timestamp, forward_origin_type, forward_sender_name, forward_date',
+        'forward_from_user_id',
+        userId
+      ),
+      memberships: (await fetchAllRows('chat_members', '*', 'user_id', userId)) as unknown as ChatMemberRecord[],
+      ask_session: await single('ask_sessions', 'user_id'),
+      digest_subscriptions: await fetchAllRows('digest_subscribers', 'group_id, created_at', 'user_id', userId),
+      watches: (await fetchAllRows(
+        'watches',
+        'id, match_type, phrase, embedding_model, threshold, created_at',
+        'user_id',
+        userId
+      )) as unknown as WatchRecord[],
+      watch_alerts: await fetchAllRows('watch_alerts', 'watch_id, conversation_id, sent_at', 'user_id', userId),
+      data_requests: (await fetchAllRows('data_requests', '*', 'user_id', userId)) as unknown as DataRequestRecord[],
+    };
+  } catch (error) {
+    logger.error('Error exporting user data:', error);
+    return null;
+  }
+}
+
+/**
+ * Log a data subject request
+ * @param record Request to log
+ * @returns True on success, false on error
+ */
+export async function insertDataRequest(record: DataRequestRecord): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client.from('data_requests').insert([record]);
+
+    if (error) {
+      logger.error('Error logging data request:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error logging data request:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the retention policy of a group, or the global default
+ * @param groupId Group/channel ID, or 0 for the global default
+ * @returns RetentionPolicy, or null if none is set or on error
+ */
+export async function getRetentionPolicy(groupId: number): Promise<RetentionPolicy | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('retention_policies')
+      .select('*')
+      .eq('group_id', groupId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching retention policy:', error);
+      return null;
+    }
+
+    return (data as RetentionPolicy) || null;
+  } catch (error) {
+    logger.error('Unexpected error fetching retention policy:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or replace a retention policy
+ * @param record Retention policy
+ * @returns True on success, false on error
+ */
+export async function upsertRetentionPolicy(record: RetentionPolicy): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client
+      .from('retention_policies')
+      .upsert([{ ...record, updated_at: new Date().toISOString() }], { onConflict: 'group_id' });
+
+    if (error) {
+      logger.error('Error storing retention policy:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error storing retention policy:', error);
+    return false;
+  }
+}
+
+/**
+ * Remove a retention policy so the group falls back to the global default
+ * @param groupId Group/channel ID, or 0 for the global default
+ * @returns True on success, false on error
+ */
+export async function deleteRetentionPolicy(groupId: number): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client.from('retention_policies').delete().eq('group_id', groupId);
+
+    if (error) {
+      logger.error('Error deleting retention policy:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error deleting retention policy:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete one batch of expired messages and clear one batch of expired embeddings
+ * Backed by the purge_expired_data SQL function
+ * @param batchSize Most messages deleted and vectors cleared
+ * @returns Numbers of messages deleted and vectors cleared, or null on error
+ */
+export async function purgeExpiredData(batchSize: number): Promise<{ messages: number; vectors: number } | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .rpc('purge_expired_data', { p_batch_size: batchSize })
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error purging expired data:', error);
+      return null;
+    }
+
+    const row = data as { messages: number; vectors: number } | null;
+    return { messages: Number(row?.messages ?? 0), vectors: Number(row?.vectors ?? 0) };
+  } catch (error) {
+    logger.error('Unexpected error purging expired data:', error);
+    return null;
+  }
+}
+
+/**
+ * Get every group's redaction mode
+ * @returns Map of group ID to mode, or null on error
+ */
+export async function getRedactionPolicies(): Promise<Map<number, RedactionMode> | null> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client.from('redaction_policies').select('group_id, mode');
+
+    if (error) {
+      logger.error('Error fetching redaction policies:', error);
+      return null;
+    }
+
+    return new Map(
+      ((data as { group_id: number; mode: RedactionMode }[]) || []).map((row) => [Number(row.group_id), row.mode])
+    );
+  } catch (error) {
+    logger.error('Unexpected error fetching redaction policies:', error);
+    return null;
+  }
+}
+
+/**
+ * Set a group's redaction mode, or remove it so the default applies
+ * @param groupId Group/channel ID
+ * @param mode Redaction mode, or null for the default
+ * @returns True on success, false on error
+ */
+export async function setRedactionPolicy(groupId: number, mode: RedactionMode | null): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = mode
+      ? await client
+          .from('redaction_policies')
+          .upsert([{ group_id: groupId, mode, updated_at: new Date().toISOString() }], { onConflict: 'group_id' })
+      : await client.from('redaction_policies').delete().eq('group_id', groupId);
+
+    if (error) {
+      logger.error('Error storing redaction policy:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error storing redaction policy:', error);
+    return false;
+  }
+}
+
+/**
+ * Add one message's redactions to a group's counts
+ * Backed by the record_redactions SQL function
+ * @param groupId Group/channel ID
+ * @param matches Values found per detector
+ * @param dropped Whether the message was not stored
+ * @returns True on success, false on error
+ */
+export async function recordRedactions(
+  groupId: number,
+  matches: Partial<Record<RedactionDetector, number>>,
+  dropped: boolean
+): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  try {
+    const { error } = await client.rpc('record_redactions', {
+      p_group_id: groupId,
+      p_matches: matches,
+      p_dropped: dropped,
+    });
+
+    if (error) {
+      logger.error('Error recording redactions:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Unexpected error recording redactions:', error);
+    return false;
+  }
+}
+
+/**
+ * Get a group's redaction counts
+ * @param groupId Group/channel ID
+ * @returns Counts per detector, empty array on error
+ */
+export async function getRedactionCounts(groupId: number): Promise<RedactionCount[]> {
+  const client = getSupabaseClient();
+
+  try {
+    const { data, error } = await client
+      .from('redaction_counts')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('matches', { ascending: false });
+
+    if (error) {
+      logger.error('Error fetching redaction counts:', error);
+      return [];
+    }
+
+    return ((data as RedactionCount[]) || []).map((row) => ({
+      ...row,
+      matches: Number(row.matches),
+      messages: Number(row.messages),
+      dropped: Number(row.dropped),
+    }));
+  } catch (error) {
+    logger.error('Unexpected error fetching redaction counts:', error);
+    return [];
+  }
+}
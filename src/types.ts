@@ -11,18 +11,46 @@ export interface TelegramMessage {
   messageId: number;
   /** Message content text */
   text: string;
-  /** User ID who sent the message */
-  userId: number;
+  /** User ID who sent the message, null for channel posts and anonymous admins */
+  userId: number | null;
   /** Group/channel ID where message was sent */
   groupId: number;
   /** Timestamp when message was received */
   timestamp: Date;
-  /** Optional username of the sender */
+  /** Optional username of the sender (or the sending chat) */
   userName?: string;
   /** Optional first name of the sender */
   userFirstName?: string;
   /** Optional last name of the sender */
   userLastName?: string;
+  /** Chat the message was sent on behalf of (channel posts, anonymous admins) */
+  senderChatId?: number;
+  /** Optional channel post author signature */
+  authorSignature?: string;
+  /** Message this one replies to (same chat) */
+  replyToMessageId?: number;
+  /** Forum topic the message belongs to */
+  messageThreadId?: number;
+  /** Where a forwarded message came from */
+  forward?: ForwardOrigin;
+}
+
+/**
+ * Origin of a forwarded message
+ */
+export interface ForwardOrigin {
+  /** Telegram origin type (user, hidden_user, chat, channel) */
+  type: string;
+  /** Original author, omitted if hidden or opted out */
+  userId?: number;
+  /** Original chat or channel */
+  chatId?: number;
+  /** Original message ID in the channel */
+  messageId?: number;
+  /** Display name of the original author or chat */
+  senderName?: string;
+  /** Original send time */
+  date: Date;
 }
 
 /**
@@ -35,22 +63,340 @@ export interface ConversationRecord {
   message_id: number;
   /** Message content text */
   text: string;
-  /** User ID who sent the message */
-  user_id: number;
+  /** User ID who sent the message, null for channel posts and anonymous admins */
+  user_id: number | null;
   /** Group/channel ID where message was sent */
   group_id: number;
+  /** Chat the message was sent on behalf of (channel posts, anonymous admins) */
+  sender_chat_id?: number | null;
+  /** Optional channel post author signature */
+  author_signature?: string | null;
+  /** Message this one replies to (same group) */
+  reply_to_message_id?: number | null;
+  /** Forum topic the message belongs to */
+  message_thread_id?: number | null;
+  /** Forward origin type (user, hidden_user, chat, channel), null if not forwarded */
+  forward_origin_type?: string | null;
+  /** Original author of a forwarded message */
+  forward_from_user_id?: number | null;
+  /** Original chat/channel of a forwarded message */
+  forward_from_chat_id?: number | null;
+  /** Original message ID of a forwarded channel post */
+  forward_from_message_id?: number | null;
+  /** Display name of the original author or chat of a forwarded message */
+  forward_sender_name?: string | null;
+  /** ISO format original send time of a forwarded message */
+  forward_date?: string | null;
   /** ISO format timestamp */
   timestamp: string;
   /** Optional vector embedding for semantic search */
   vector?: number[] | null;
+  /** Model that produced the vector */
+  embedding_model?: string | null;
+  /** Length of the vector */
+  embedding_dimensions?: number | null;
   /** Optional username of the sender */
   user_name?: string;
   /** Optional first name of the sender */
   user_first_name?: string;
   /** Optional last name of the sender */
   user_last_name?: string;
+  /** Time of the latest edit, null if never edited */
+  edited_at?: string | null;
   /** Record creation timestamp */
   created_at?: string;
+  /** Chat the message was posted in (joined from chats, read-only) */
+  chat?: Pick<ChatRecord, 'type' | 'title' | 'username'> | null;
+  /** Sender profile (joined from telegram_users, read-only) */
+  sender?: Pick<TelegramUserRecord, 'username' | 'first_name' | 'last_name'> | null;
+}
+
+/**
+ * Represents a previous version of an edited message
+ */
+export interface ConversationRevision {
+  /** Optional unique database ID */
+  id?: string;
+  /** conversations.id of the edited message */
+  conversation_id: number;
+  /** Message text before the edit */
+  text: string;
+  /** When this version was posted or last edited */
+  valid_from: string;
+  /** When this version was replaced */
+  valid_to: string;
+  /** Record creation timestamp */
+  created_at?: string;
+}
+
+/**
+ * Attachment kinds stored in message_media
+ */
+export type MediaType =
+  | 'photo'
+  | 'video'
+  | 'animation'
+  | 'audio'
+  | 'voice'
+  | 'video_note'
+  | 'document'
+  | 'poll';
+
+/**
+ * Attachment metadata of a stored message (message_media table)
+ */
+export interface MessageMediaRecord {
+  /** Optional unique database ID */
+  id?: string;
+  /** conversations.id of the message */
+  conversation_id: number;
+  /** Kind of attachment */
+  media_type: MediaType;
+  /** Telegram file_id for downloading, null for polls */
+  file_id?: string | null;
+  /** Stable Telegram file identifier */
+  file_unique_id?: string | null;
+  /** Original file name (documents, audio, video) */
+  file_name?: string | null;
+  /** MIME type reported by Telegram */
+  mime_type?: string | null;
+  /** File size in bytes */
+  file_size?: number | null;
+  /** Duration in seconds (audio, voice, video) */
+  duration?: number | null;
+  /** Width in pixels (photo, video) */
+  width?: number | null;
+  /** Height in pixels (photo, video) */
+  height?: number | null;
+  /** Whether document contents were extracted into the conversation text */
+  text_extracted?: boolean;
+  /** Record creation timestamp */
+  created_at?: string;
+}
+
+/**
+ * One question and answer in a private-chat session
+ */
+export interface AskSessionTurn {
+  /** The user's question */
+  question: string;
+  /** The answer given (citations removed) */
+  answer: string;
+  /** ISO format time the question was asked */
+  asked_at: string;
+}
+
+/**
+ * Represents a private-chat conversation session (ask_sessions table)
+ */
+export interface AskSessionRecord {
+  /** Telegram user ID */
+  user_id: number;
+  /** Recent turns, oldest first */
+  turns: AskSessionTurn[];
+  /** Timestamp of the latest turn */
+  updated_at?: string;
+  /** Timestamp after which the session is ignored */
+  expires_at: string;
+}
+
+/**
+ * How often a group digest is posted
+ */
+export type DigestFrequency = 'daily' | 'weekly';
+
+/**
+ * Where a group digest is delivered
+ * - group: posted in the group
+ * - dm: sent privately to the group's digest subscribers
+ */
+export type DigestDelivery = 'group' | 'dm';
+
+/**
+ * Represents a group's digest settings (digest_schedules table)
+ */
+export interface DigestSchedule {
+  /** Group/channel ID */
+  group_id: number;
+  /** Daily or weekly */
+  frequency: DigestFrequency;
+  /** Local hour of day (0-23) */
+  hour: number;
+  /** Local minute (0-59) */
+  minute: number;
+  /** Day of week for weekly digests (0 = Sunday), null for daily */
+  weekday?: number | null;
+  /** IANA time zone for hour/minute/weekday */
+  time_zone: string;
+  /** Where the digest is delivered */
+  delivery: DigestDelivery;
+  /** Whether digests are being sent */
+  enabled: boolean;
+  /** ISO format time of the next digest */
+  next_run_at: string;
+  /** ISO format time of the last digest delivered to at least one chat */
+  last_sent_at?: string | null;
+  /** Telegram user ID of the admin who last changed the settings */
+  updated_by?: number | null;
+  /** Timestamp of the last settings change */
+  updated_at?: string;
+}
+
+/**
+ * Represents an event announced in a stored message (events table)
+ */
+export interface EventRecord {
+  /** Database primary key */
+  id?: number;
+  /** conversations.id of the announcing message */
+  conversation_id: number;
+  /** Group/channel the event was announced in */
+  group_id: number;
+  /** Event name */
+  name: string;
+  /** Start time in ISO format (midnight UTC for all-day events) */
+  starts_at: string;
+  /** End time in ISO format, if announced */
+  ends_at?: string | null;
+  /** Whether only the date is known */
+  all_day: boolean;
+  /** Venue, city or "Online" */
+  location?: string | null;
+  /** Registration or information link */
+  url?: string | null;
+  /** Organiser names or handles */
+  organisers: string[];
+  /** Timestamp when extracted */
+  created_at?: string;
+  /** Announcing message with its chat (joined from conversations, read-only) */
+  source?: Pick<ConversationRecord, 'group_id' | 'message_id' | 'message_thread_id' | 'chat'> | null;
+}
+
+/**
+ * How a watch matches messages
+ * - keyword: the phrase appears as whole words (case-insensitive)
+ * - regex: the regular expression matches (case-insensitive)
+ * - semantic: the message embedding is similar to the phrase embedding
+ */
+export type WatchMatchType = 'keyword' | 'regex' | 'semantic';
+
+/**
+ * Represents an alert subscription (watches table)
+ */
+export interface WatchRecord {
+  /** Database primary key */
+  id?: number;
+  /** Telegram user ID of the subscriber */
+  user_id: number;
+  /** How messages are matched */
+  match_type: WatchMatchType;
+  /** Keyword phrase, regex source or semantic query */
+  phrase: string;
+  /** Phrase embedding (semantic watches only) */
+  embedding?: number[] | string | null;
+  /** Model that produced the embedding */
+  embedding_model?: string | null;
+  /** Minimum cosine similarity (semantic watches only) */
+  threshold?: number | null;
+  /** Timestamp when created */
+  created_at?: string;
+}
+
+/**
+ * A group a user has stored messages in (get_user_message_groups)
+ */
+export interface UserMessageGroup {
+  /** Group/channel ID */
+  group_id: number;
+  /** Group title, if known */
+  title: string | null;
+  /** Public @username, if any */
+  username: string | null;
+  /** Number of stored messages by the user */
+  message_count: number;
+  /** Time of the user's oldest stored message in the group */
+  first_message_at: string;
+  /** Time of the user's newest stored message in the group */
+  last_message_at: string;
+}
+
+/**
+ * How long a group's (or, for group_id 0, every group's) data is kept (retention_policies table)
+ * Days of 0 keep data indefinitely; null falls back to the global default
+ */
+export interface RetentionPolicy {
+  /** Group/channel ID, or 0 for the global default */
+  group_id: number;
+  /** Days messages are kept */
+  message_retention_days: number | null;
+  /** Days message embeddings are kept */
+  vector_retention_days: number | null;
+  /** Timestamp of the last change */
+  updated_at?: string;
+}
+
+/**
+ * Selection of a user's stored messages to clear
+ */
+export interface MessageScope {
+  /** Only this group (all groups if omitted) */
+  groupId?: number;
+  /** Only messages sent at or after this time */
+  since?: Date;
+  /** Only messages sent before this time */
+  until?: Date;
+}
+
+/**
+ * Kind of data subject request
+ */
+export type DataRequestType = 'export' | 'erase';
+
+/**
+ * Represents a logged data subject request (data_requests table)
+ */
+export interface DataRequestRecord {
+  /** Database primary key */
+  id?: number;
+  /** Telegram user ID of the requester */
+  user_id: number;
+  /** Kind of request */
+  request_type: DataRequestType;
+  /** Request summary, e.g. row counts */
+  details: Record<string, unknown>;
+  /** Timestamp of the request */
+  created_at?: string;
+}
+
+/**
+ * Everything stored about one user, as exported by /mydata
+ * Message vectors are left out; embedding_model shows which messages were embedded
+ */
+export interface UserDataExport {
+  /** Telegram user ID */
+  user_id: number;
+  /** ISO format time of the export */
+  exported_at: string;
+  /** Stored profile (telegram_users) */
+  profile: TelegramUserRecord | null;
+  /** Opt-out record, if the user opted out */
+  opt_out: OptOutUser | null;
+  /** The user's messages with their edit history, attachment metadata and extracted events */
+  conversations: Record<string, unknown>[];
+  /** Other users' messages that forward the user's messages */
+  forwards: Record<string, unknown>[];
+  /** Group memberships */
+  memberships: ChatMemberRecord[];
+  /** Private-chat /ask session */
+  ask_session: AskSessionRecord | null;
+  /** Groups whose digest the user receives */
+  digest_subscriptions: Record<string, unknown>[];
+  /** /watch subscriptions (without phrase embeddings) */
+  watches: WatchRecord[];
+  /** Alerts sent for the user's watches */
+  watch_alerts: Record<string, unknown>[];
+  /** Previous data subject requests */
+  data_requests: DataRequestRecord[];
 }
 
 /**
@@ -65,6 +411,60 @@ export interface OptOutUser {
   opted_out_at?: string;
 }
 
+/**
+ * Represents a Telegram chat seen by the bot
+ */
+export interface ChatRecord {
+  /** Telegram chat ID */
+  id: number;
+  /** Telegram chat type (private, group, supergroup, channel) */
+  type: string;
+  /** Group/channel title, null for private chats */
+  title?: string | null;
+  /** Public @username of the chat */
+  username?: string | null;
+  /** Timestamp of the latest update seen from this chat */
+  last_seen_at?: string;
+  /** Record creation timestamp */
+  created_at?: string;
+}
+
+/**
+ * Represents a Telegram user seen by the bot
+ */
+export interface TelegramUserRecord {
+  /** Telegram user ID */
+  id: number;
+  /** Optional @username */
+  username?: string | null;
+  /** First name */
+  first_name?: string | null;
+  /** Optional last name */
+  last_name?: string | null;
+  /** Whether the account is a bot */
+  is_bot?: boolean;
+  /** Timestamp of the latest update seen from this user */
+  last_seen_at?: string;
+  /** Record creation timestamp */
+  created_at?: string;
+}
+
+/**
+ * Represents a user's last known membership status in a group
+ */
+export interface ChatMemberRecord {
+  /** Optional unique database ID */
+  id?: string;
+  /** Group/channel ID */
+  group_id: number;
+  /** Telegram user ID */
+  user_id: number;
+  /** Telegram member status (creator, administrator, member, restricted, left, kicked) */
+  status: string;
+  /** Timestamp of the last status change */
+  updated_at?: string;
+}
+
 /**
  * Result from embedding generation
  */
@@ -73,8 +473,64 @@ export interface EmbeddingResult {
   text: string;
   /** Generated vector embedding or null if unavailable */
   embedding: number[] | null;
+  /** Model that produced the embedding */
+  model?: string;
+  /** Reason the embedding is missing, when generation failed */
+  error?: string;
 }
 
+/**
+ * Represents a pending or failed embedding job in the embedding_jobs table
+ */
+export interface EmbeddingJob {
+  /** Unique database ID */
+  id: number;
+  /** conversations.id of the message to embed */
+  conversation_id: number;
+  /** Number of attempts made so far, including the current one */
+  attempts: number;
+  /** Message text to embed */
+  text: string;
+  /** Lease token (updated_at set by the claim); changes when the job is re-queued */
+  claimed_at: string;
+}
+
+/**
+ * Kinds of personal data the redaction pipeline detects
+ */
+export type RedactionDetector = 'email' | 'phone' | 'card' | 'mnemonic' | 'private_key';
+
+/**
+ * What happens to detected personal data
+ * - redact: replace it with a [kind] placeholder
+ * - hash: replace it with a keyed hash, so repeated values stay recognisable
+ * - drop: do not store the message at all
+ */
+export type RedactionMode = 'redact' | 'hash' | 'drop';
+
+/**
+ * Personal data redacted in one group (redaction_counts table)
+ */
+export interface RedactionCount {
+  /** Group/channel ID */
+  group_id: number;
+  /** Kind of personal data */
+  detector: RedactionDetector;
+  /** Values redacted or hashed (including those in dropped messages) */
+  matches: number;
+  /** Messages that contained this kind of data */
+  messages: number;
+  /** Messages not stored because of it (drop mode) */
+  dropped: number;
+  /** Timestamp of the last redaction */
+  updated_at?: string;
+}
+
+/**
+ * Supported chat-completion backends for answering questions
+ */
+export type LLMProviderName = 'openai' | 'gemini' | 'openai-compatible';
+
 /**
  * Bot configuration from environment variables
  */
@@ -89,11 +545,55 @@ export interface BotConfig {
   openaiApiKey?: string;
   /** Optional Google Gemini API key for embeddings (priority 2) */
   geminiApiKey?: string;
+  /** Optional embedding provider name (default: first registered provider with a key) */
+  embeddingProvider?: string;
+  /** How often the in-process embedding worker polls the queue (default: 10000ms) */
+  embeddingWorkerIntervalMs: number;
+  /** Shared secret required by HTTP-triggered jobs (Authorization: Bearer <secret>); they are refused without it */
+  cronSecret?: string;
   /** Optional webhook URL for production mode */
   webhookUrl?: string;
   /** Port for webhook server (default: 3000) */
   port?: number;
   /** Bot operation mode: 'polling' for dev, 'webhook' for production */
   mode: 'polling' | 'webhook';
+  /** Telegram user IDs allowed to /ask across all groups */
+  adminUserIds: number[];
+  /** Optional answer provider (default: first available of OpenAI, Gemini) */
+  llmProvider?: LLMProviderName;
+  /** Optional model name for the answer provider */
+  llmModel?: string;
+  /** Base URL for the 'openai-compatible' provider (e.g. http://localhost:11434/v1) */
+  llmBaseUrl?: string;
+  /** Optional API key for the 'openai-compatible' provider */
+  llmApiKey?: string;
+  /** Sampling temperature for answers (default: 0.7) */
+  llmTemperature: number;
+  /** Maximum tokens per answer (default: 512) */
+  llmMaxTokens: number;
+  /** Token budget for the prompt including context messages (default: 3000) */
+  llmContextTokens: number;
+  /** Longest single context message in tokens before it is truncated (default: 300) */
+  llmMaxMessageTokens: number;
+  /** Minutes of inactivity after which a private-chat session expires (default: 30) */
+  askSessionTtlMinutes: number;
+  /** Download text documents and store their contents (default: false) */
+  documentExtraction: boolean;
+  /** Largest document downloaded for extraction in bytes (default: 1048576) */
+  documentExtractionMaxBytes: number;
+  /** Extract announced events from messages with the answer provider (default: true) */
+  eventExtraction: boolean;
+  /** Redact personal data before storage and in prompts (default: true) */
+  redaction: boolean;
+  /** Detectors the redaction pipeline runs (default: all) */
+  redactionDetectors: RedactionDetector[];
+  /** Default redaction mode for groups without their own policy (default: redact) */
+  redactionMode: RedactionMode;
+  /** Key for hashed values; hash mode is unavailable without it */
+  redactionHashKey?: string;
+  /** Most /watch alerts sent to one user per hour (default: 10) */
+  watchAlertsPerHour: number;
+  /** Minimum similarity for semantic /watch matches (default: 0.5) */
+  watchSimilarityThreshold: number;
 }
 
@@ -0,0 +1,352 @@
+/**
+ * Watch alerts module
+ * Lets users subscribe to phrases with /watch and DMs them when new messages
+ * in groups they belong to match
+ *
+ * - keyword and regex watches are checked during ingestion, right after the
+ *   message is stored. Regex watches run on RE2 (re2js), which matches in
+ *   linear time, so a user's pattern cannot stall ingestion; each pattern is
+ *   compiled once and cached
+ * - semantic watches compare embeddings, so they are checked by the embedding
+ *   worker once the message vector has been written
+ *
+ * Only current members of the message's group are alerted, and never for
+ * their own messages: candidates come from chat_members and each one is
+ * re-verified with getChatMember before an alert is sent, so users who left
+ * or were banned while an update was missed get nothing. Each watch alerts once per message and every
+ * user receives at most WATCH_ALERTS_PER_HOUR alerts per hour; the
+ * watch_alerts table backs both limits so they also hold in serverless deployments.
+ */
+
+import { Api, InlineKeyboard } from 'grammy';
+import { RE2JS } from 're2js';
+import { BotConfig, ConversationRecord, WatchMatchType, WatchRecord } from './types.js';
+import {
+  countRecentWatchAlerts,
+  fetchMessagesByIds,
+  getKeywordWatches,
+  matchSemanticWatches,
+  recordWatchAlerts,
+} from './supabase.js';
+import { generateEmbedding } from './embeddings.js';
+import { escapeHtml, formatMessageLine } from './search.js';
+import { verifyMembership } from './access.js';
+import { logger } from './logger.js';
+
+/** Callback data prefix of the remove buttons, followed by a watch ID or "all" */
+export const UNWATCH_CALLBACK = 'unwatch:';
+
+/** Watches one user may have */
+export const MAX_WATCHES_PER_USER = 20;
+
+/** Longest phrase or pattern accepted */
+const MAX_PHRASE_LENGTH = 200;
+
+/** Window of the per-user alert limit */
+const ALERT_WINDOW_MS = 60 * 60_000;
+
+/** Longest phrase shown on a remove button */
+const BUTTON_PHRASE_LENGTH = 30;
+
+/** Letters, digits and underscore, for whole-word keyword matching */
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+/** Compiled patterns kept in memory */
+const MAX_COMPILED_PATTERNS = 1000;
+
+/** Tests a message text against one watch */
+type WatchMatcher = (text: string) => boolean;
+
+/** Compiled matchers by match type and phrase; null for patterns that do not compile */
+const compiledPatterns = new Map<string, WatchMatcher | null>();
+
+let api: Api | null = null;
+let alertsPerHour = 10;
+let similarityThreshold = 0.5;
+
+/**
+ * A parsed /watch request
+ */
+export interface WatchRequest {
+  /** How messages are matched */
+  matchType: WatchMatchType;
+  /** Keyword phrase, regex source or semantic query */
+  phrase: string;
+}
+
+/**
+ * Initialize alert delivery and limits
+ * @param config Bot configuration
+ */
+export function initWatches(config: BotConfig): void {
+  api = new Api(config.telegramBotToken);
+  alertsPerHour = config.watchAlertsPerHour;
+  similarityThreshold = config.watchSimilarityThreshold;
+}
+
+/**
+ * Parse the arguments of a /watch command
+ * "/watch <phrase>" is a keyword watch, "/watch /<pattern>/" a regex watch
+ * and "/watch ~<phrase>" a semantic watch
+ * @param text Message text
+ * @returns Watch request, or null if the phrase is missing or too long
+ */
+export function parseWatchCommand(text: string): WatchRequest | null {
+  const arg = text.replace(/^\/watch(?:@\w+)?/i, '').trim();
+  let request: WatchRequest;
+  if (arg.length > 2 && arg.startsWith('/') && arg.endsWith('/')) {
+    request = { matchType: 'regex', phrase: arg.slice(1, -1) };
+  } else if (arg.startsWith('~')) {
+    request = { matchType: 'semantic', phrase: arg.slice(1).trim() };
+  } else {
+    request = { matchType: 'keyword', phrase: arg.replace(/\s+/g, ' ') };
+  }
+  if (!request.phrase || request.phrase.length > MAX_PHRASE_LENGTH) {
+    return null;
+  }
+  return request;
+}
+
+/**
+ * Compile a keyword or regex watch
+ * Regex watches use RE2 syntax (no backreferences or lookarounds); keyword
+ * watches are escaped phrases, safe for the built-in engine
+ * @param watch Keyword or regex watch
+ * @returns Case-insensitive matcher
+ * @throws Error for invalid regex patterns
+ * @private
+ */
+function compileWatch(watch: Pick<WatchRecord, 'match_type' | 'phrase'>): WatchMatcher {
+  if (watch.match_type === 'regex') {
+    const pattern = RE2JS.compile(watch.phrase, RE2JS.CASE_INSENSITIVE);
+    return (text) => pattern.test(text);
+  }
+  const escaped = watch.phrase
+    .split(' ')
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const pattern = new RegExp(`(?<!${WORD_CHAR})${escaped}(?!${WORD_CHAR})`, 'iu');
+  return (text) => pattern.test(text);
+}
+
+/**
+ * Get the cached matcher of a watch, compiling it on first use
+ * @param watch Keyword or regex watch
+ * @returns Matcher, or null if the pattern does not compile
+ * @private
+ */
+function watchMatcher(watch: Pick<WatchRecord, 'match_type' | 'phrase'>): WatchMatcher | null {
+  const key = `${watch.match_type}:${watch.phrase}`;
+  const cached = compiledPatterns.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let matcher: WatchMatcher | null = null;
+  try {
+    matcher = compileWatch(watch);
+  } catch {
+    logger.debug(`[WATCH] Pattern does not compile: ${watch.phrase}`);
+  }
+  if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+    compiledPatterns.delete(compiledPatterns.keys().next().value!);
+  }
+  compiledPatterns.set(key, matcher);
+  return matcher;
+}
+
+/**
+ * Check whether a regex watch pattern compiles
+ * @param pattern Regular expression source (RE2 syntax)
+ * @returns True if the pattern can be used
+ */
+export function isValidWatchPattern(pattern: string): boolean {
+  return watchMatcher({ match_type: 'regex', phrase: pattern }) !== null;
+}
+
+/**
+ * Check whether a message text matches a keyword or regex watch
+ * @param watch Keyword or regex watch
+ * @param text Message text
+ * @returns True on a match (false for semantic watches and invalid patterns)
+ */
+export function matchesWatch(watch: WatchRecord, text: string): boolean {
+  if (watch.match_type === 'semantic') {
+    return false;
+  }
+  return watchMatcher(watch)?.(text) ?? false;
+}
+
+/**
+ * Prepare a watch row for storage
+ * Semantic watches embed their phrase with the configured provider
+ * @param userId Telegram user ID of the subscriber
+ * @param request Parsed /watch request
+ * @returns Watch record, or null if a semantic phrase could not be embedded
+ */
+export async function buildWatch(userId: number, request: WatchRequest): Promise<WatchRecord | null> {
+  const watch: WatchRecord = { user_id: userId, match_type: request.matchType, phrase: request.phrase };
+  if (request.matchType !== 'semantic') {
+    return watch;
+  }
+  const { embedding, model } = await generateEmbedding(request.phrase);
+  if (!embedding || !model) {
+    return null;
+  }
+  return { ...watch, embedding, embedding_model: model, threshold: similarityThreshold };
+}
+
+/**
+ * Describe a watch for lists
+ * @param watch Watch
+ * @returns HTML fragment such as `keyword <code>eth denver</code>`
+ */
+export function describeWatch(watch: WatchRecord): string {
+  const phrase = `<code>${escapeHtml(watch.phrase)}</code>`;
+  switch (watch.match_type) {
+    case 'regex':
+      return `regex ${phrase}`;
+    case 'semantic':
+      return `similar to ${phrase}`;
+    default:
+      return `keyword ${phrase}`;
+  }
+}
+
+/**
+ * Format a user's watches as an HTML list
+ * @param watches Watches, oldest first
+ * @returns Message text (parse_mode HTML)
+ */
+export function formatWatches(watches: WatchRecord[]): string {
+  if (!watches.length) {
+    return '👀 You have no watches. Add one with /watch &lt;phrase&gt;.';
+  }
+  const lines = watches.map((watch, i) => `${i + 1}. ${describeWatch(watch)}`);
+  return `👀 <b>Your watches</b>\n\n${lines.join('\n')}\n\nTap a button below to remove a watch.`;
+}
+
+/**
+ * Build the remove buttons for a user's watches
+ * @param watches Watches, oldest first
+ * @returns Keyboard, or undefined if there are no watches
+ */
+export function watchesKeyboard(watches: WatchRecord[]): InlineKeyboard | undefined {
+  if (!watches.length) {
+    return undefined;
+  }
+  const keyboard = new InlineKeyboard();
+  watches.forEach((watch, i) => {
+    const phrase = watch.phrase.length > BUTTON_PHRASE_LENGTH
+      ? `${watch.phrase.slice(0, BUTTON_PHRASE_LENGTH)}…`
+      : watch.phrase;
+    keyboard.text(`🗑 ${i + 1}. ${phrase}`, `${UNWATCH_CALLBACK}${watch.id}`).row();
+  });
+  if (watches.length > 1) {
+    keyboard.text('🗑 Remove all', `${UNWATCH_CALLBACK}all`);
+  }
+  return keyboard;
+}
+
+/**
+ * Send alerts for a message to the owners of matching watches
+ * Users over their hourly limit or no longer in the group are skipped;
+ * watches already alerted for the message are not alerted again
+ * @param conversationId conversations.id of the message
+ * @param groupId Group/channel ID of the message
+ * @param watches Matching watches
+ * @param message The message with its chat and sender, if already loaded
+ * @private
+ */
+async function deliverAlerts(
+  conversationId: number,
+  groupId: number,
+  watches: WatchRecord[],
+  message?: ConversationRecord
+): Promise<void> {
+  if (!api || !watches.length) {
+    return;
+  }
+
+  const byUser = new Map<number, WatchRecord[]>();
+  for (const watch of watches) {
+    byUser.set(watch.user_id, [...(byUser.get(watch.user_id) ?? []), watch]);
+  }
+
+  let record = message;
+  for (const [userId, userWatches] of byUser) {
+    const recent = await countRecentWatchAlerts(userId, new Date(Date.now() - ALERT_WINDOW_MS));
+    if (recent === null || recent >= alertsPerHour) {
+      logger.debug(`[WATCH] Alert limit reached for user ${userId}, skipping conversation ${conversationId}`);
+      continue;
+    }
+
+    if (!(await verifyMembership(api, groupId, userId))) {
+      logger.debug(`[WATCH] User ${userId} is no longer in group ${groupId}, skipping conversation ${conversationId}`);
+      continue;
+    }
+
+    const fresh = await recordWatchAlerts(userId, conversationId, userWatches.map((watch) => Number(watch.id)));
+    if (!fresh.length) {
+      continue;
+    }
+
+    record ??= (await fetchMessagesByIds([conversationId]))[0];
+    if (!record) {
+      return;
+    }
+
+    const matched = userWatches.filter((watch) => fresh.includes(Number(watch.id)));
+    try {
+      await api.sendMessage(
+        userId,
+        `🔔 <b>Watch alert</b>: ${matched.map(describeWatch).join(', ')}\n\n${formatMessageLine(record)}`,
+        { parse_mode: 'HTML', link_preview_options: { is_disabled: true } }
+      );
+      logger.debug(`[WATCH] Alerted user ${userId} about conversation ${conversationId}`);
+    } catch (error) {
+      logger.warn(`[WATCH] Could not alert user ${userId}:`, error);
+    }
+  }
+}
+
+/**
+ * Alert keyword and regex watchers about a newly stored message
+ * Failures are logged; they never fail ingestion
+ * @param record Stored conversation record
+ */
+export async function notifyWatchers(record: ConversationRecord): Promise<void> {
+  if (!api || !record.id) {
+    return;
+  }
+  try {
+    const watches = await getKeywordWatches(Number(record.id));
+    const matched = watches.filter((watch) => matchesWatch(watch, record.text));
+    await deliverAlerts(Number(record.id), record.group_id, matched);
+  } catch (error) {
+    logger.warn(`[WATCH] Matching failed for conversation ${record.id}:`, error);
+  }
+}
+
+/**
+ * Alert semantic watchers about a message whose embedding was just written
+ * Failures are logged; they never fail the embedding job
+ * @param conversationId conversations.id of the embedded message
+ */
+export async function notifySemanticWatchers(conversationId: number): Promise<void> {
+  if (!api) {
+    return;
+  }
+  try {
+    const watches = await matchSemanticWatches(conversationId);
+    if (!watches.length) {
+      return;
+    }
+    const [record] = await fetchMessagesByIds([conversationId]);
+    if (record) {
+      await deliverAlerts(conversationId, record.group_id, watches, record);
+    }
+  } catch (error) {
+    logger.warn(`[WATCH] Semantic matching failed for conversation ${conversationId}:`, error);
+  }
+}